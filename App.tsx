@@ -1,212 +1,533 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { GoogleGenAI, LiveServerMessage } from '@google/genai';
-import { ConnectionStatus, Modality } from './types';
-import { decode, decodeAudioData, createPcmBlob } from './services/audioUtils';
-
-// Global constants for the Live API
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
-const SAMPLE_RATE_IN = 16000;
-const SAMPLE_RATE_OUT = 24000;
-
-const DEFAULT_INSTRUCTIONS = `You are a voice-only conversational AI assistant. 
-CORE RULES (ABSOLUTE):
-1. You MUST communicate ONLY through spoken language.
-2. You MUST NEVER output text, markdown, bullet points, lists, emojis, symbols, or formatting of any kind.
-3. Your responses are intended to be converted directly into audio.
-4. Speak naturally, as a human would in a real conversation.
-5. If a response sounds like writing, rephrase it into spoken language.
-
-VOICE & DELIVERY STYLE:
-- Speak in a calm, warm, clear, and confident voice.
-- Use natural conversational rhythm, including short pauses.
-- Keep sentences concise and easy to follow.
-
-LANGUAGE HANDLING:
-- Match the user’s spoken language automatically.
-- If the user speaks Malay, respond in Malay.
-- If the user speaks English, respond in English.
-- If the user mixes languages, respond naturally using the same mix.
-
-DEFAULT RESPONSE LENGTH:
-- One to three spoken sentences.`;
+import { ConnectionStatus, InputSettings, LanguageSettings, Memory, Modality, Persona, SessionSettings, TranscriptionEntry } from './types';
+import { createPcmBlob } from './services/audioUtils';
+import { startAudioCapture, AudioCapture } from './services/audioCapture';
+import { PlaybackEngine } from './services/playbackEngine';
+import { ActiveSpeaker, AudioLevels, createLevelAnalyser, startLevelLoop } from './services/audioLevels';
+import { appendTypedTurn, completeTurns } from './services/transcript';
+import { ToolRegistry } from './services/toolRegistry';
+import { registerBuiltinTools } from './services/builtinTools';
+import { LiveConnectionManager } from './services/liveConnection';
+import {
+  CAPTURE_FRAME_MS,
+  SAMPLE_RATE_IN,
+  SAMPLE_RATE_OUT,
+  VAD_PRE_ROLL_MS,
+  buildLiveConfig,
+  handleLiveMessage,
+} from './services/liveSession';
+import { LiveTransport, createEphemeralTokenTransport } from './services/liveTransport';
+import { describeModel } from './services/liveModels';
+import {
+  loadActivePersonaId,
+  loadPersonas,
+  saveActivePersonaId,
+  savePersonas,
+} from './services/personaStore';
+import { SessionRecorder, SessionRecording } from './services/sessionRecorder';
+import { SessionMetrics, SessionMetricsSnapshot, base64ByteLength, exportMetrics, textByteLength } from './services/sessionMetrics';
+import { downloadBlob } from './services/fileUtils';
+import { InputGate, loadInputSettings, saveInputSettings } from './services/voiceActivity';
+import { loadResponseModality, saveResponseModality } from './services/responseSettings';
+import {
+  buildMemoryContext,
+  createMemory,
+  isMemorable,
+  selectMemories,
+  summarizeConversation,
+  toMemoryTurns,
+} from './services/memory';
+import {
+  clearMemories,
+  deleteMemory,
+  listMemories,
+  loadMemoryEnabled,
+  putMemory,
+  saveMemoryEnabled,
+} from './services/memoryStore';
+import { ariaShortcut, matchShortcut } from './services/shortcuts';
+import {
+  describeLanguageSettings,
+  expectedLanguages,
+  loadLanguageSettings,
+  resolveVoice,
+  saveLanguageSettings,
+} from './services/languages';
+import {
+  SESSION_PRESET_PARAM,
+  decodeSessionPreset,
+  describeSessionChanges,
+  describeSessionConfig,
+  loadSessionSettings,
+  resolveModel,
+  saveSessionSettings,
+} from './services/sessionSettings';
+import {
+  FrameSampler,
+  VideoSettings,
+  VideoSource,
+  loadVideoSettings,
+  openVideoSource,
+  saveVideoSettings,
+} from './services/videoInput';
+import {
+  WakePhraseDetector,
+  WakePhraseSettings,
+  loadWakePhraseSettings,
+  saveWakePhraseSettings,
+} from './services/wakePhrase';
+import {
+  AudioDeviceList,
+  AudioDeviceSettings as DeviceSettings,
+  isUsingPreferredInput,
+  listAudioDevices,
+  loadAudioDeviceSettings,
+  openMicrophone,
+  saveAudioDeviceSettings,
+  setOutputDevice,
+} from './services/audioDevices';
+import TranscriptPanel from './components/TranscriptPanel';
+import PersonaSettings from './components/PersonaSettings';
+import InputModeControls from './components/InputModeControls';
+import AudioDeviceSettings from './components/AudioDeviceSettings';
+import MetricsOverlay from './components/MetricsOverlay';
+import MemoryPanel from './components/MemoryPanel';
+import HandsFreeSettings from './components/HandsFreeSettings';
+import LanguageSettingsPanel from './components/LanguageSettingsPanel';
+import SessionSettingsPanel from './components/SessionSettingsPanel';
+import SessionPresetPrompt from './components/SessionPresetPrompt';
+import VideoPreview from './components/VideoPreview';
+import LiveAnnouncer, { Announcement } from './components/LiveAnnouncer';
+
+const STATUS_ANNOUNCEMENTS: Record<ConnectionStatus, string> = {
+  disconnected: 'Conversation ended.',
+  connecting: 'Connecting to Vox.',
+  connected: 'Connected. Vox is listening.',
+  reconnecting: 'Connection lost. Reconnecting.',
+  error: 'The conversation stopped because of an error.',
+};
+
+// What a finished session needs to be saved as a memory
+interface MemorySession {
+  startedAt: number;
+  personaId: string;
+  useServer: boolean;
+}
+
+// The configuration a session runs with, as shown in the footer
+interface SessionSummary {
+  model: string;
+  // Null for text-only replies
+  voice: string | null;
+  details: string[];
+}
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<ConnectionStatus>('disconnected');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [isSpeaking, setIsSpeaking] = useState(false);
-  const [intensity, setIntensity] = useState(0);
+  // Levels themselves go straight to CSS variables each frame; only who is talking is React state
+  const [speaker, setSpeaker] = useState<ActiveSpeaker>('none');
   const [isMuted, setIsMuted] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [systemInstruction, setSystemInstruction] = useState(DEFAULT_INSTRUCTIONS);
+  const [personas, setPersonas] = useState<Persona[]>(loadPersonas);
+  const [activePersonaId, setActivePersonaId] = useState<string>(() => loadActivePersonaId() ?? personas[0].id);
+  const [transcript, setTranscript] = useState<TranscriptionEntry[]>([]);
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+  const [isRecordingEnabled, setIsRecordingEnabled] = useState(false);
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [inputSettings, setInputSettings] = useState<InputSettings>(loadInputSettings);
+  const [isVoiceActive, setIsVoiceActive] = useState(false);
+  const [audioDeviceSettings, setAudioDeviceSettings] = useState<DeviceSettings>(loadAudioDeviceSettings);
+  const [audioDevices, setAudioDevices] = useState<AudioDeviceList>({ inputs: [], outputs: [] });
+  const [isDeviceSettingsOpen, setIsDeviceSettingsOpen] = useState(false);
+  const [responseModality, setResponseModality] = useState<Modality>(loadResponseModality);
+  const [isMetricsOpen, setIsMetricsOpen] = useState(false);
+  const [metricsSnapshot, setMetricsSnapshot] = useState<SessionMetricsSnapshot | null>(null);
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [memoryEnabled, setMemoryEnabled] = useState(loadMemoryEnabled);
+  const [isMemoryOpen, setIsMemoryOpen] = useState(false);
+  const [wakePhrase, setWakePhrase] = useState<WakePhraseSettings>(loadWakePhraseSettings);
+  const [isWakeListening, setIsWakeListening] = useState(false);
+  const [isHandsFreeOpen, setIsHandsFreeOpen] = useState(false);
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+  const [languageSettings, setLanguageSettings] = useState<LanguageSettings>(loadLanguageSettings);
+  const [isLanguageOpen, setIsLanguageOpen] = useState(false);
+  const [videoSettings, setVideoSettings] = useState<VideoSettings>(loadVideoSettings);
+  const [video, setVideo] = useState<{ source: VideoSource; stream: MediaStream } | null>(null);
+  const [isVideoPaused, setIsVideoPaused] = useState(false);
+  const [sessionSettings, setSessionSettings] = useState<SessionSettings>(loadSessionSettings);
+  const [isSessionSettingsOpen, setIsSessionSettingsOpen] = useState(false);
+  // Settings from a shared link, waiting for the user to confirm them
+  const [sharedSession, setSharedSession] = useState<{ settings: SessionSettings; changes: string[] } | null>(null);
+  // Fixed when a session opens, so edits made mid-session do not show as active
+  const [activeSession, setActiveSession] = useState<SessionSummary | null>(null);
 
   // Audio Context References
   const inputAudioCtxRef = useRef<AudioContext | null>(null);
   const outputAudioCtxRef = useRef<AudioContext | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const nextStartTimeRef = useRef<number>(0);
-  const sessionRef = useRef<any>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const playbackRef = useRef<PlaybackEngine | null>(null);
+  const connectionRef = useRef<LiveConnectionManager | null>(null);
   const isMutedRef = useRef<boolean>(false);
+  const toolRegistryRef = useRef<ToolRegistry>(new ToolRegistry());
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const inputGateRef = useRef<InputGate | null>(null);
+  const transcriptRef = useRef<TranscriptionEntry[]>([]);
+  const audioDeviceSettingsRef = useRef<DeviceSettings>(audioDeviceSettings);
+  const metricsRef = useRef<SessionMetrics | null>(null);
+  const memorySessionRef = useRef<MemorySession | null>(null);
+  // Set by barge-in: the rest of the current reply is dropped until the model ends its turn
+  const suppressReplyRef = useRef(false);
+  const previousStatusRef = useRef<ConnectionStatus>(status);
+  const frameSamplerRef = useRef<FrameSampler | null>(null);
+  const videoStreamRef = useRef<MediaStream | null>(null);
+  // Bumped by every start and stop, so a camera or screen that opens late can tell it was superseded
+  const videoAttemptRef = useRef(0);
+
+  const activePersona = personas.find(p => p.id === activePersonaId) ?? personas[0];
+  const isDialogOpen = isSettingsOpen || isDeviceSettingsOpen || isMemoryOpen || isHandsFreeOpen || isLanguageOpen
+    || isSessionSettingsOpen || sharedSession !== null;
+  const personaVoice = resolveVoice(activePersona.voice, languageSettings);
+  const serverActivityDetection = inputSettings.mode === 'open';
+  const plannedModel = resolveModel(sessionSettings, responseModality);
+  const plannedSession: SessionSummary = {
+    model: plannedModel,
+    voice: responseModality === Modality.TEXT ? null : sessionSettings.voice || personaVoice,
+    details: describeSessionConfig(sessionSettings, plannedModel, { serverActivityDetection }),
+  };
+  const shownSession = activeSession ?? plannedSession;
+
+  const announce = useCallback((text: string, assertive = false) => {
+    setAnnouncement(prev => ({ text, assertive, id: (prev?.id ?? 0) + 1 }));
+  }, []);
 
-  // Analysis for visual feedback
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const rafRef = useRef<number | null>(null);
+  // Level visuals are driven through CSS variables on this element, not React state
+  const visualsRef = useRef<HTMLDivElement | null>(null);
+  const stopLevelsRef = useRef<(() => void) | null>(null);
 
-  const cleanup = useCallback(() => {
-    if (rafRef.current) cancelAnimationFrame(rafRef.current);
-    if (sessionRef.current) {
-      sessionRef.current.close?.();
-      sessionRef.current = null;
+  const saveSessionMemory = useCallback(async ({ startedAt, personaId, useServer }: MemorySession) => {
+    const turns = toMemoryTurns(transcriptRef.current.filter(entry => entry.startedAt >= startedAt));
+    if (!isMemorable(turns)) return;
+    try {
+      const summary = await summarizeConversation(turns, { useServer });
+      const memory = createMemory(personaId, turns, summary);
+      await putMemory(memory);
+      setMemories(prev => [memory, ...prev]);
+    } catch (err) {
+      console.error('Failed to save conversation memory:', err);
+    }
+  }, []);
+
+  const stopVideo = useCallback(() => {
+    videoAttemptRef.current++;
+    frameSamplerRef.current?.stop();
+    frameSamplerRef.current = null;
+    videoStreamRef.current?.getTracks().forEach(track => track.stop());
+    videoStreamRef.current = null;
+    setVideo(null);
+    setIsVideoPaused(false);
+  }, []);
+
+  const cleanup = useCallback((nextStatus: ConnectionStatus = 'disconnected') => {
+    stopLevelsRef.current?.();
+    stopLevelsRef.current = null;
+    stopVideo();
+    toolRegistryRef.current.cancelAll();
+    if (connectionRef.current) {
+      connectionRef.current.disconnect();
+      connectionRef.current = null;
     }
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+    }
+    inputGateRef.current = null;
+    setIsVoiceActive(false);
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
-    sourcesRef.current.forEach(source => source.stop());
-    sourcesRef.current.clear();
+    if (playbackRef.current) {
+      playbackRef.current.dispose();
+      playbackRef.current = null;
+    }
+
+    if (metricsRef.current) {
+      metricsRef.current.end();
+      setMetricsSnapshot(metricsRef.current.snapshot());
+    }
+
+    if (memorySessionRef.current) {
+      saveSessionMemory(memorySessionRef.current);
+      memorySessionRef.current = null;
+    }
+
+    if (recorderRef.current) {
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+      recorder.interruptOutput();
+      if (!recorder.isEmpty) {
+        setRecording(recorder.finish(completeTurns(transcriptRef.current)));
+      }
+    }
     
     if (inputAudioCtxRef.current) inputAudioCtxRef.current.close();
     if (outputAudioCtxRef.current) outputAudioCtxRef.current.close();
     
     inputAudioCtxRef.current = null;
     outputAudioCtxRef.current = null;
-    setStatus('disconnected');
+    setStatus(nextStatus);
+    setActiveSession(null);
     setIsSpeaking(false);
-    setIntensity(0);
     setIsMuted(false);
     isMutedRef.current = false;
-  }, []);
+    setTranscript(prev => completeTurns(prev));
+  }, [saveSessionMemory, stopVideo]);
 
-  const startAnalysis = (ctx: AudioContext, stream: MediaStream) => {
-    const source = ctx.createMediaStreamSource(stream);
-    const analyser = ctx.createAnalyser();
-    analyser.fftSize = 64;
-    source.connect(analyser);
-    analyserRef.current = analyser;
-
-    const bufferLength = analyser.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-
-    const update = () => {
-      analyser.getByteFrequencyData(dataArray);
-      let sum = 0;
-      for (let i = 0; i < bufferLength; i++) {
-        sum += dataArray[i];
-      }
-      const average = sum / bufferLength;
-      const displayedIntensity = isMutedRef.current ? (isSpeaking ? average / 512 : 0) : average / 255;
-      setIntensity(displayedIntensity); 
-      rafRef.current = requestAnimationFrame(update);
-    };
-    update();
+  const applyLevelStyles = (next: AudioLevels) => {
+    const style = visualsRef.current?.style;
+    if (!style) return;
+    style.setProperty('--vox-user-level', next.user.toFixed(3));
+    style.setProperty('--vox-model-level', next.model.toFixed(3));
+    style.setProperty('--vox-level', next.combined.toFixed(3));
   };
 
   const connect = async () => {
     try {
       setStatus('connecting');
       setErrorMessage(null);
+      setRecording(null);
+      setMetricsSnapshot(null);
+      metricsRef.current = null;
+      suppressReplyRef.current = false;
+      recorderRef.current = isRecordingEnabled ? new SessionRecorder(SAMPLE_RATE_IN, SAMPLE_RATE_OUT) : null;
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+      // In development, append ?mock to the URL to run against scripted server messages instead of the real API.
+      // The dynamic import keeps the mock out of production bundles.
+      let transport: LiveTransport | null = null;
+      if (import.meta.env.DEV && new URLSearchParams(window.location.search).has('mock')) {
+        const { MockLiveTransport, demoScript } = await import('./services/mockLiveTransport');
+        transport = new MockLiveTransport([demoScript()]);
+      }
+      const isMock = transport !== null;
+      transport ??= createEphemeralTokenTransport();
 
-      // Initialize audio contexts
-      inputAudioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE_IN });
+      // Initialize audio contexts. Capture runs at the device's native rate and is resampled in the worklet.
+      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      inputAudioCtxRef.current = inputCtx;
       outputAudioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE_OUT });
-      const outputNode = outputAudioCtxRef.current.createGain();
-      outputNode.connect(outputAudioCtxRef.current.destination);
+      const outputCtx = outputAudioCtxRef.current;
+      const outputNode = outputCtx.createGain();
+      outputNode.connect(outputCtx.destination);
+      const playback = new PlaybackEngine(outputCtx, outputNode, { sampleRate: SAMPLE_RATE_OUT });
+      playback.onSpeakingChange = setIsSpeaking;
+      playbackRef.current = playback;
+      if (audioDeviceSettings.outputDeviceId) {
+        await setOutputDevice(outputAudioCtxRef.current, audioDeviceSettings.outputDeviceId)
+          .catch(err => console.warn('Could not select the speaker, using the default output:', err));
+      }
 
-      // Get microphone
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Get microphone. The conversation may end while the permission prompt is open.
+      const stream = await openMicrophone(audioDeviceSettings);
+      if (inputAudioCtxRef.current !== inputCtx) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
       streamRef.current = stream;
+      listAudioDevices().then(setAudioDevices).catch(() => {});
 
-      startAnalysis(inputAudioCtxRef.current, stream);
+      // Frames are dropped until the session is open and the input gate exists
+      const capture = await startAudioCapture(
+        inputCtx,
+        stream,
+        { targetSampleRate: SAMPLE_RATE_IN, frameDurationMs: CAPTURE_FRAME_MS },
+        (frame) => {
+          if (isMutedRef.current) return;
+          metricsRef.current?.observeInput(frame);
+          inputGateRef.current?.process(frame);
+        },
+      );
+      // The conversation may have ended while the worklet module was loading
+      if (inputAudioCtxRef.current !== inputCtx) {
+        capture.stop();
+        stream.getTracks().forEach(track => track.stop());
+        if (streamRef.current === stream) streamRef.current = null;
+        return;
+      }
+      captureRef.current = capture;
+      stopLevelsRef.current = startLevelLoop({
+        input: createLevelAnalyser(inputCtx, capture.input),
+        output: createLevelAnalyser(outputCtx, outputNode),
+        isInputMuted: () => isMutedRef.current,
+        onFrame: applyLevelStyles,
+        onSpeakerChange: setSpeaker,
+      });
 
-      const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: systemInstruction,
+      const textOnly = responseModality === Modality.TEXT;
+      if (textOnly) setIsTranscriptOpen(true);
+      const { model, voice } = plannedSession;
+      setActiveSession(plannedSession);
+      // Both VAD paths backdate the end of speech by the hangover. With an open mic there is no
+      // gate to mark it, so metrics detect it locally.
+      const metrics = new SessionMetrics(
+        model,
+        inputSettings.mode === 'push-to-talk' ? {} : {
+          vad: inputSettings.vad,
+          sampleRate: inputSettings.mode === 'open' ? SAMPLE_RATE_IN : undefined,
         },
-        callbacks: {
-          onopen: () => {
-            setStatus('connected');
-            
-            const source = inputAudioCtxRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioCtxRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              if (isMutedRef.current) return;
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createPcmBlob(inputData);
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioCtxRef.current!.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData) {
-              setIsSpeaking(true);
-              const ctx = outputAudioCtxRef.current!;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              
-              const audioBuffer = await decodeAudioData(
-                decode(audioData),
-                ctx,
-                SAMPLE_RATE_OUT,
-                1
-              );
-              
-              const source = ctx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(outputNode);
-              source.addEventListener('ended', () => {
-                sourcesRef.current.delete(source);
-                if (sourcesRef.current.size === 0) {
-                  setIsSpeaking(false);
-                }
-              });
-              
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              sourcesRef.current.add(source);
-            }
-
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => s.stop());
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setIsSpeaking(false);
-            }
+      );
+      metricsRef.current = metrics;
+      playback.onChunkScheduled = ({ samples, startTime, queueAheadSeconds }) => {
+        metrics.recordModelAudio(queueAheadSeconds);
+        recorderRef.current?.recordOutput(samples, startTime - outputCtx.currentTime);
+      };
+
+      // Fixed for the session so reconnects resume with the same context
+      const memoryContext = memoryEnabled ? buildMemoryContext(selectMemories(memories, activePersona.id)) : '';
+      memorySessionRef.current = memoryEnabled
+        ? { startedAt: Date.now(), personaId: activePersona.id, useServer: !isMock }
+        : null;
+
+      const connection = new LiveConnectionManager({
+        transport,
+        model,
+        getConfig: () => buildLiveConfig({
+          persona: activePersona,
+          responseModality,
+          language: languageSettings,
+          session: sessionSettings,
+          model,
+          voice,
+          serverActivityDetection,
+          tools: toolRegistryRef.current.getTools(),
+          extraInstructions: [memoryContext],
+        }),
+        onStatusChange: (nextStatus, error) => {
+          if (nextStatus === 'error') {
+            setErrorMessage(error || 'A connection error occurred. Please try again.');
+            cleanup('error');
+            return;
+          }
+          if (nextStatus === 'reconnecting') {
+            // Calls from the dropped session can no longer be answered
+            toolRegistryRef.current.cancelAll();
+          }
+          setStatus(nextStatus);
+        },
+        onMessage: (message) => handleLiveMessage(message, {
+          textOnly,
+          playback,
+          toolRegistry: toolRegistryRef.current,
+          suppressReply: suppressReplyRef,
+          updateTranscript: setTranscript,
+          sendToolResponse: (functionResponses) => connectionRef.current?.sendToolResponse({ functionResponses }),
+          onModelText: (text) => {
+            metrics.recordModelResponse();
+            metrics.recordReceived(textByteLength(text));
           },
-          onerror: (e) => {
-            console.error('Gemini Live Error:', e);
-            setErrorMessage('A connection error occurred. Please try again.');
-            cleanup();
+          onModelAudio: (data) => {
+            // Latency is taken on arrival; playback only schedules the chunk after its pre-roll
+            metrics.recordModelResponse();
+            metrics.recordReceived(base64ByteLength(data));
           },
-          onclose: () => {
-            console.log('Gemini Live Closed');
-            cleanup();
+          onInterrupted: () => {
+            recorderRef.current?.interruptOutput();
+            metrics.recordInterruption();
           },
-        },
+          onTurnComplete: () => metrics.completeTurn(),
+        }),
       });
+      connectionRef.current = connection;
 
-      sessionRef.current = await sessionPromise;
+      await connection.connect();
+
+      const gate = new InputGate(
+        inputSettings.mode,
+        {
+          sendAudio: (frame) => {
+            recorderRef.current?.recordInput(frame);
+            const media = createPcmBlob(frame, SAMPLE_RATE_IN);
+            metrics.recordSent(base64ByteLength(media.data!));
+            connection.sendRealtimeInput({ media });
+          },
+          activityStart: () => connection.sendRealtimeInput({ activityStart: {} }),
+          activityEnd: () => connection.sendRealtimeInput({ activityEnd: {} }),
+        },
+        {
+          vad: inputSettings.vad,
+          sampleRate: SAMPLE_RATE_IN,
+          preRollFrames: Math.ceil(VAD_PRE_ROLL_MS / CAPTURE_FRAME_MS),
+        },
+      );
+      gate.onActivityChange = (active) => {
+        setIsVoiceActive(active);
+        if (!active) metrics.markVoiceActivityEnd();
+      };
+      if (connectionRef.current === connection) {
+        inputGateRef.current = gate;
+      }
     } catch (err: any) {
       console.error('Failed to connect:', err);
       setErrorMessage(err.message || 'Failed to start the conversation.');
-      cleanup();
+      cleanup('error');
+    }
+  };
+
+  // Swaps the capture stream in place; the Live session keeps running throughout
+  const switchMicrophone = useCallback(async (settings: DeviceSettings) => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    try {
+      const stream = await openMicrophone(settings);
+      if (captureRef.current !== capture) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      const previous = streamRef.current;
+      capture.setStream(stream);
+      streamRef.current = stream;
+      previous?.getTracks().forEach(track => track.stop());
+    } catch (err: any) {
+      console.error('Failed to switch microphone:', err);
+      setErrorMessage(err.message || 'Could not switch to the selected microphone.');
     }
+  }, []);
+
+  const updateAudioDeviceSettings = (next: DeviceSettings) => {
+    const previous = audioDeviceSettingsRef.current;
+    audioDeviceSettingsRef.current = next;
+    setAudioDeviceSettings(next);
+
+    const inputChanged = next.inputDeviceId !== previous.inputDeviceId
+      || next.echoCancellation !== previous.echoCancellation
+      || next.noiseSuppression !== previous.noiseSuppression
+      || next.autoGainControl !== previous.autoGainControl;
+    if (inputChanged) switchMicrophone(next);
+
+    if (next.outputDeviceId !== previous.outputDeviceId && outputAudioCtxRef.current) {
+      setOutputDevice(outputAudioCtxRef.current, next.outputDeviceId)
+        .catch(err => console.error('Failed to switch speaker:', err));
+    }
+  };
+
+  // Typed messages go into the same session as client content, so persona and context are shared
+  const sendText = (text: string) => {
+    const connection = connectionRef.current;
+    if (!connection?.isOpen) return;
+    connection.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text }] }],
+      turnComplete: true,
+    });
+    metricsRef.current?.recordSent(textByteLength(text));
+    metricsRef.current?.markSpeechEnd();
+    setTranscript(prev => appendTypedTurn(prev, text));
   };
 
   const toggleConnection = () => {
-    if (status === 'connected') {
+    if (status === 'connected' || status === 'reconnecting') {
       cleanup();
     } else {
       connect();
@@ -217,65 +538,503 @@ const App: React.FC = () => {
     const newState = !isMuted;
     setIsMuted(newState);
     isMutedRef.current = newState;
+    if (newState) inputGateRef.current?.release();
+    announce(newState ? 'Microphone muted.' : 'Microphone on.');
+  };
+
+  // Frames go into the live session next to the audio, so the model can see what the user means
+  const startVideo = async (source: VideoSource) => {
+    const connection = connectionRef.current;
+    if (!connection) return;
+    stopVideo();
+    const attempt = videoAttemptRef.current;
+    const isCurrent = () => videoAttemptRef.current === attempt && connectionRef.current === connection;
+    try {
+      const stream = await openVideoSource(source);
+      // The conversation may have ended, or another source been picked, while the user was choosing what to share
+      if (!isCurrent()) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      const sampler = new FrameSampler(stream, videoSettings);
+      sampler.onFrame = ({ data, mimeType, bytes }) => {
+        metricsRef.current?.recordSent(bytes);
+        connection.sendRealtimeInput({ video: { data, mimeType } });
+      };
+      // Fired when the user stops sharing from the browser's own controls
+      stream.getVideoTracks()[0]?.addEventListener('ended', stopVideo);
+      frameSamplerRef.current = sampler;
+      videoStreamRef.current = stream;
+      setVideo({ source, stream });
+      await sampler.start();
+      if (!isCurrent()) return;
+      announce(source === 'camera' ? 'Camera on. Vox can see it.' : 'Screen shared. Vox can see it.');
+    } catch (err: any) {
+      // A superseded attempt must not stop the video that replaced it
+      if (!isCurrent()) return;
+      // Closing the screen picker is not an error
+      if (source === 'screen' && err?.name === 'NotAllowedError') return;
+      console.error('Failed to start video:', err);
+      stopVideo();
+      setErrorMessage(err.message || `Could not start the ${source === 'camera' ? 'camera' : 'screen share'}.`);
+    }
+  };
+
+  const toggleVideo = (source: VideoSource) => {
+    if (video?.source === source) {
+      stopVideo();
+      announce(source === 'camera' ? 'Camera off.' : 'Stopped sharing the screen.');
+    } else {
+      startVideo(source);
+    }
+  };
+
+  const toggleVideoPause = () => {
+    const paused = !isVideoPaused;
+    frameSamplerRef.current?.setPaused(paused);
+    setIsVideoPaused(paused);
+    announce(paused ? 'Video paused. Vox cannot see it.' : 'Video resumed. Vox can see it.');
+  };
+
+  // Stops the reply locally; the session stays open and the model finishes its turn unheard
+  const bargeIn = () => {
+    const playback = playbackRef.current;
+    if (!playback?.isSpeaking) return;
+    suppressReplyRef.current = true;
+    playback.flush();
+    recorderRef.current?.interruptOutput();
+    metricsRef.current?.recordInterruption();
+    setTranscript(prev => completeTurns(prev, { interrupted: true }));
+    announce('Stopped Vox speaking.');
+  };
+
+  const setPushToTalk = (held: boolean) => {
+    if (isMutedRef.current) return;
+    inputGateRef.current?.setPushToTalk(held);
+  };
+
+  // Re-subscribed every render so the handlers always see the current state
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Open dialogs handle their own keys, including Escape
+      if (isDialogOpen || e.defaultPrevented) return;
+      const shortcut = matchShortcut(e);
+      if (!shortcut) return;
+
+      switch (shortcut.action) {
+        case 'pushToTalk':
+          if (inputSettings.mode !== 'push-to-talk' || status !== 'connected') return;
+          e.preventDefault();
+          if (!e.repeat) setPushToTalk(true);
+          return;
+        case 'toggleConnection':
+          if (status !== 'connecting') toggleConnection();
+          break;
+        case 'toggleMute':
+          if (status === 'connected' || status === 'reconnecting') toggleMute();
+          break;
+        case 'bargeIn':
+          bargeIn();
+          break;
+        case 'toggleTranscript':
+          setIsTranscriptOpen(open => !open);
+          break;
+        case 'openSettings':
+          setIsSettingsOpen(true);
+          break;
+        case 'openHandsFree':
+          setIsHandsFreeOpen(true);
+          break;
+      }
+      e.preventDefault();
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || inputSettings.mode !== 'push-to-talk') return;
+      // Stops a focused button from being clicked by the same key press
+      if (matchShortcut(e)) e.preventDefault();
+      setPushToTalk(false);
+    };
+    const handleBlur = () => setPushToTalk(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  });
+
+  // The wake phrase holds the mic locally between conversations and starts one when heard
+  const wakePhraseText = wakePhrase.phrase.trim();
+  const isWakeArmed = wakePhrase.enabled && !!wakePhraseText && (status === 'disconnected' || status === 'error');
+  const connectRef = useRef(connect);
+  connectRef.current = connect;
+
+  useEffect(() => {
+    if (!isWakeArmed) return;
+    const detector = new WakePhraseDetector(wakePhraseText, navigator.language || 'en-US');
+    detector.onDetected = () => {
+      announce('Wake phrase heard. Connecting.');
+      connectRef.current();
+    };
+    detector.onError = (message) => {
+      setErrorMessage(message);
+      setWakePhrase(settings => ({ ...settings, enabled: false }));
+    };
+    let cancelled = false;
+    detector.start()
+      .then(() => {
+        if (!cancelled) setIsWakeListening(true);
+      })
+      .catch(err => {
+        if (!cancelled) detector.onError?.(err.message);
+      });
+    return () => {
+      cancelled = true;
+      detector.stop();
+      setIsWakeListening(false);
+    };
+  }, [isWakeArmed, wakePhraseText, announce]);
+
+  useEffect(() => {
+    const previous = previousStatusRef.current;
+    previousStatusRef.current = status;
+    if (previous === status) return;
+    const ended = status === 'disconnected' && isWakeArmed ? ` Say "${wakePhraseText}" to start again.` : '';
+    announce(STATUS_ANNOUNCEMENTS[status] + ended, status === 'error');
+  }, [status, isWakeArmed, wakePhraseText, announce]);
+
+  useEffect(() => {
+    if (errorMessage) announce(errorMessage, true);
+  }, [errorMessage, announce]);
+
+  // Built-in tools live for the lifetime of the app so timers survive reconnects
+  useEffect(() => {
+    return registerBuiltinTools(toolRegistryRef.current, {
+      onTimerFinished: (label) => {
+        if (!connectionRef.current?.isOpen) {
+          console.info(`Timer finished while disconnected: ${label}`);
+          return;
+        }
+        connectionRef.current.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: `The timer "${label}" has just finished. Let me know out loud.` }] }],
+          turnComplete: true,
+        });
+      },
+    });
+  }, []);
+
+  useEffect(() => {
+    transcriptRef.current = transcript;
+  }, [transcript]);
+
+  // Refresh the overlay and footer while a session is live; cleanup takes the final snapshot
+  useEffect(() => {
+    if (status !== 'connected' && status !== 'reconnecting') return;
+    const timer = setInterval(() => {
+      if (metricsRef.current) setMetricsSnapshot(metricsRef.current.snapshot());
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  useEffect(() => {
+    savePersonas(personas);
+  }, [personas]);
+
+  useEffect(() => {
+    saveInputSettings(inputSettings);
+  }, [inputSettings]);
+
+  useEffect(() => {
+    saveAudioDeviceSettings(audioDeviceSettings);
+  }, [audioDeviceSettings]);
+
+  useEffect(() => {
+    saveResponseModality(responseModality);
+  }, [responseModality]);
+
+  useEffect(() => {
+    saveMemoryEnabled(memoryEnabled);
+  }, [memoryEnabled]);
+
+  useEffect(() => {
+    saveWakePhraseSettings(wakePhrase);
+  }, [wakePhrase]);
+
+  useEffect(() => {
+    saveLanguageSettings(languageSettings);
+  }, [languageSettings]);
+
+  useEffect(() => {
+    saveSessionSettings(sessionSettings);
+  }, [sessionSettings]);
+
+  // A shared link carries session settings; tidy the URL and ask before they replace the saved ones
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const encoded = params.get(SESSION_PRESET_PARAM);
+    if (!encoded) return;
+    params.delete(SESSION_PRESET_PARAM);
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+    try {
+      const settings = decodeSessionPreset(encoded);
+      const changes = describeSessionChanges(sessionSettings, settings);
+      if (changes.length > 0) setSharedSession({ settings, changes });
+      else announce('The shared session settings match yours.');
+    } catch (err: any) {
+      setErrorMessage(err.message);
+    }
+  }, [announce, sessionSettings]);
+
+  useEffect(() => {
+    saveVideoSettings(videoSettings);
+    frameSamplerRef.current?.setSettings(videoSettings);
+  }, [videoSettings]);
+
+  useEffect(() => {
+    listMemories().then(setMemories).catch(err => console.error('Failed to load memories:', err));
+  }, []);
+
+  const togglePinMemory = (memory: Memory) => {
+    const updated = { ...memory, pinned: !memory.pinned };
+    setMemories(prev => prev.map(m => (m.id === memory.id ? updated : m)));
+    putMemory(updated).catch(err => console.error('Failed to update memory:', err));
+  };
+
+  const removeMemory = (id: string) => {
+    setMemories(prev => prev.filter(m => m.id !== id));
+    deleteMemory(id).catch(err => console.error('Failed to delete memory:', err));
   };
 
+  const removeAllMemories = () => {
+    setMemories([]);
+    clearMemories().catch(err => console.error('Failed to clear memories:', err));
+  };
+
+  // Keep the device list fresh and follow headsets plugged in or removed mid-session
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+
+    const handleDeviceChange = async () => {
+      const devices = await listAudioDevices();
+      setAudioDevices(devices);
+
+      const settings = audioDeviceSettingsRef.current;
+      if (streamRef.current && !isUsingPreferredInput(streamRef.current, devices, settings)) {
+        await switchMicrophone(settings);
+      }
+
+      const outputCtx = outputAudioCtxRef.current;
+      if (outputCtx && settings.outputDeviceId) {
+        const available = devices.outputs.some(device => device.deviceId === settings.outputDeviceId);
+        setOutputDevice(outputCtx, available ? settings.outputDeviceId : '')
+          .catch(err => console.error('Failed to switch speaker:', err));
+      }
+    };
+
+    listAudioDevices().then(setAudioDevices).catch(() => {});
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [switchMicrophone]);
+
+  useEffect(() => {
+    saveActivePersonaId(activePersona.id);
+  }, [activePersona.id]);
+
   // Handle unmount cleanup
   useEffect(() => {
     return () => cleanup();
   }, [cleanup]);
 
   return (
-    <div className="min-h-screen w-full flex flex-col items-center justify-center relative overflow-hidden bg-slate-950 px-6">
+    <div ref={visualsRef} className="min-h-screen w-full flex flex-col items-center justify-center relative overflow-hidden bg-slate-950 px-6">
+      <LiveAnnouncer announcement={announcement} />
       
+      {/* Transcript Button */}
+      <button 
+        onClick={() => setIsTranscriptOpen(open => !open)}
+        className={`absolute top-8 left-8 z-20 p-3 rounded-full border transition-all active:scale-90 ${
+          isTranscriptOpen
+            ? 'bg-slate-800 text-white border-slate-700'
+            : 'bg-slate-900/50 border-slate-800 text-slate-400 hover:text-white hover:bg-slate-800'
+        }`}
+        title="Conversation"
+        aria-label="Conversation"
+        aria-expanded={isTranscriptOpen}
+        aria-keyshortcuts={ariaShortcut('toggleTranscript')}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>
+      </button>
+
+      <TranscriptPanel
+        entries={transcript}
+        isOpen={isTranscriptOpen}
+        onClose={() => setIsTranscriptOpen(false)}
+        onClear={() => setTranscript([])}
+        onSendText={sendText}
+        canSendText={status === 'connected'}
+        expectedLanguages={expectedLanguages(languageSettings)}
+      />
+
+      {/* Metrics Button */}
+      <button 
+        onClick={() => setIsMetricsOpen(open => !open)}
+        className={`absolute top-8 right-40 z-20 p-3 rounded-full border transition-all active:scale-90 ${
+          isMetricsOpen
+            ? 'bg-slate-800 text-white border-slate-700'
+            : 'bg-slate-900/50 border-slate-800 text-slate-400 hover:text-white hover:bg-slate-800'
+        }`}
+        title="Session Metrics"
+        aria-label="Session Metrics"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M22 12h-4l-3 9L9 3l-3 9H2"/></svg>
+      </button>
+
+      {isMetricsOpen && (
+        <MetricsOverlay
+          snapshot={metricsSnapshot}
+          onExport={() => {
+            const snapshot = metricsRef.current?.snapshot() ?? metricsSnapshot;
+            if (snapshot) downloadBlob(exportMetrics(snapshot), `vox-metrics-${snapshot.startedAt}.json`);
+          }}
+          onClose={() => setIsMetricsOpen(false)}
+        />
+      )}
+
+      {/* Session Settings Button */}
+      <button 
+        onClick={() => setIsSessionSettingsOpen(true)}
+        className="absolute top-8 right-[22rem] z-20 p-3 rounded-full bg-slate-900/50 border border-slate-800 text-slate-400 hover:text-white hover:bg-slate-800 transition-all active:scale-90"
+        title="Session Settings"
+        aria-label="Session Settings"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="4" x2="4" y1="21" y2="14"/><line x1="4" x2="4" y1="10" y2="3"/><line x1="12" x2="12" y1="21" y2="12"/><line x1="12" x2="12" y1="8" y2="3"/><line x1="20" x2="20" y1="21" y2="16"/><line x1="20" x2="20" y1="12" y2="3"/><line x1="2" x2="6" y1="14" y2="14"/><line x1="10" x2="14" y1="8" y2="8"/><line x1="18" x2="22" y1="16" y2="16"/></svg>
+      </button>
+
+      {sharedSession && (
+        <SessionPresetPrompt
+          changes={sharedSession.changes}
+          onApply={() => {
+            setSessionSettings(sharedSession.settings);
+            setSharedSession(null);
+            announce('Shared session settings applied.');
+          }}
+          onDismiss={() => setSharedSession(null)}
+        />
+      )}
+
+      {isSessionSettingsOpen && (
+        <SessionSettingsPanel
+          settings={sessionSettings}
+          responseModality={responseModality}
+          inputMode={inputSettings.mode}
+          defaultVoice={personaVoice}
+          isConnected={status === 'connected' || status === 'reconnecting'}
+          onChange={setSessionSettings}
+          onClose={() => setIsSessionSettingsOpen(false)}
+        />
+      )}
+
+      {/* Hands-free Button */}
+      <button 
+        onClick={() => setIsHandsFreeOpen(true)}
+        className={`absolute top-8 right-72 z-20 p-3 rounded-full border transition-all active:scale-90 ${
+          isWakeListening
+            ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20'
+            : 'bg-slate-900/50 border-slate-800 text-slate-400 hover:text-white hover:bg-slate-800'
+        }`}
+        title="Hands-free and Shortcuts"
+        aria-label="Hands-free and Shortcuts"
+        aria-keyshortcuts={ariaShortcut('openHandsFree')}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect width="20" height="16" x="2" y="4" rx="2"/><path d="M6 8h.01"/><path d="M10 8h.01"/><path d="M14 8h.01"/><path d="M18 8h.01"/><path d="M8 12h.01"/><path d="M12 12h.01"/><path d="M16 12h.01"/><path d="M7 16h10"/></svg>
+      </button>
+
+      {isHandsFreeOpen && (
+        <HandsFreeSettings
+          wakePhrase={wakePhrase}
+          isWakeListening={isWakeListening}
+          onWakePhraseChange={setWakePhrase}
+          onClose={() => setIsHandsFreeOpen(false)}
+        />
+      )}
+
+      {/* Memory Button */}
+      <button 
+        onClick={() => setIsMemoryOpen(true)}
+        className="absolute top-8 right-56 z-20 p-3 rounded-full bg-slate-900/50 border border-slate-800 text-slate-400 hover:text-white hover:bg-slate-800 transition-all active:scale-90"
+        title="Memory"
+        aria-label="Memory"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 5a3 3 0 1 0-5.997.125 4 4 0 0 0-2.526 5.77 4 4 0 0 0 .556 6.588A4 4 0 1 0 12 18Z"/><path d="M12 5a3 3 0 1 1 5.997.125 4 4 0 0 1 2.526 5.77 4 4 0 0 1-.556 6.588A4 4 0 1 1 12 18Z"/><path d="M12 5v13"/></svg>
+      </button>
+
+      {isMemoryOpen && (
+        <MemoryPanel
+          memories={memories}
+          personas={personas}
+          enabled={memoryEnabled}
+          onToggleEnabled={setMemoryEnabled}
+          onTogglePin={togglePinMemory}
+          onDelete={removeMemory}
+          onClear={removeAllMemories}
+          onClose={() => setIsMemoryOpen(false)}
+        />
+      )}
+
+      {/* Audio Devices Button */}
+      <button 
+        onClick={() => setIsDeviceSettingsOpen(true)}
+        className="absolute top-8 right-24 z-20 p-3 rounded-full bg-slate-900/50 border border-slate-800 text-slate-400 hover:text-white hover:bg-slate-800 transition-all active:scale-90"
+        title="Audio Devices"
+        aria-label="Audio Devices"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 14h3a2 2 0 0 1 2 2v3a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-7a9 9 0 0 1 18 0v7a2 2 0 0 1-2 2h-1a2 2 0 0 1-2-2v-3a2 2 0 0 1 2-2h3"/></svg>
+      </button>
+
+      {isDeviceSettingsOpen && (
+        <AudioDeviceSettings
+          settings={audioDeviceSettings}
+          devices={audioDevices}
+          onChange={updateAudioDeviceSettings}
+          onClose={() => setIsDeviceSettingsOpen(false)}
+        />
+      )}
+
       {/* Settings Button */}
       <button 
         onClick={() => setIsSettingsOpen(true)}
         className="absolute top-8 right-8 z-20 p-3 rounded-full bg-slate-900/50 border border-slate-800 text-slate-400 hover:text-white hover:bg-slate-800 transition-all active:scale-90"
         title="Persona Settings"
+        aria-label="Persona Settings"
+        aria-keyshortcuts={ariaShortcut('openSettings')}
       >
         <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 1 1.72v.51a2 2 0 0 1-1 1.74l-.15.09a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l.22-.39a2 2 0 0 0-.73-2.73l-.15-.08a2 2 0 0 1-1-1.74v-.5a2 2 0 0 1 1-1.74l.15-.09a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z"/><circle cx="12" cy="12" r="3"/></svg>
       </button>
 
       {/* Settings Modal */}
       {isSettingsOpen && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-300">
-          <div className="bg-slate-900 w-full max-w-2xl rounded-2xl border border-slate-800 shadow-2xl overflow-hidden animate-in slide-in-from-bottom-4 zoom-in-95 duration-300">
-            <div className="p-6 border-b border-slate-800 flex justify-between items-center">
-              <div>
-                <h2 className="text-xl font-medium text-white">System Instructions</h2>
-                <p className="text-slate-500 text-sm">Define how Vox speaks and behaves</p>
-              </div>
-              <button 
-                onClick={() => setIsSettingsOpen(false)}
-                className="p-2 rounded-lg hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
-              </button>
-            </div>
-            <div className="p-6">
-              <textarea
-                value={systemInstruction}
-                onChange={(e) => setSystemInstruction(e.target.value)}
-                className="w-full h-80 bg-slate-950 border border-slate-800 rounded-xl p-4 text-slate-300 font-mono text-sm focus:outline-none focus:border-indigo-500 transition-colors resize-none"
-                placeholder="Enter system instructions for the AI..."
-              />
-              {status === 'connected' && (
-                <div className="mt-4 flex items-center space-x-2 text-amber-400/80 text-xs">
-                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3Z"/><path d="M12 9v4"/><path d="M12 17h.01"/></svg>
-                  <span>Changes will take effect after you reconnect.</span>
-                </div>
-              )}
-            </div>
-            <div className="p-6 bg-slate-900/50 border-t border-slate-800 flex justify-end">
-              <button 
-                onClick={() => setIsSettingsOpen(false)}
-                className="px-6 py-2 bg-indigo-600 text-white rounded-full font-medium hover:bg-indigo-500 transition-colors shadow-lg shadow-indigo-500/20"
-              >
-                Apply Changes
-              </button>
-            </div>
-          </div>
-        </div>
+        <PersonaSettings
+          personas={personas}
+          activePersonaId={activePersona.id}
+          isConnected={status === 'connected' || status === 'reconnecting'}
+          onChange={setPersonas}
+          onSelect={setActivePersonaId}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {isLanguageOpen && (
+        <LanguageSettingsPanel
+          settings={languageSettings}
+          personaVoice={activePersona.voice}
+          onChange={setLanguageSettings}
+          onClose={() => setIsLanguageOpen(false)}
+        />
       )}
 
       {/* Background Glow Effect */}
@@ -286,13 +1045,17 @@ const App: React.FC = () => {
               ? 'bg-slate-700 scale-95 blur-[120px]'
               : isSpeaking 
                 ? 'bg-blue-400 scale-110 blur-[120px]' 
-                : 'bg-indigo-600 scale-100 blur-[100px]'
-            : status === 'connecting'
+                : speaker === 'user'
+                  ? 'bg-emerald-500 scale-100 blur-[110px]'
+                  : 'bg-indigo-600 scale-100 blur-[100px]'
+            : status === 'connecting' || status === 'reconnecting'
               ? 'bg-amber-400 scale-90'
-              : 'bg-slate-800 scale-95'
+              : status === 'error'
+                ? 'bg-red-500/60 scale-90'
+                : 'bg-slate-800 scale-95'
         }`}
         style={{
-          transform: `scale(${1 + intensity * 0.5})`
+          transform: 'scale(calc(1 + var(--vox-level, 0) * 0.5))'
         }}
       />
 
@@ -303,8 +1066,49 @@ const App: React.FC = () => {
           <p className="text-slate-400 font-light text-lg">Pure Voice Interaction</p>
         </header>
 
-        {/* Visualizer Orb */}
+        {/* Persona Picker */}
+        <div className="flex items-center space-x-2 text-sm">
+          <label htmlFor="persona-select" className="text-slate-500 uppercase tracking-widest text-[10px]">Persona</label>
+          <select
+            id="persona-select"
+            value={activePersona.id}
+            onChange={(e) => setActivePersonaId(e.target.value)}
+            disabled={status !== 'disconnected' && status !== 'error'}
+            className="bg-slate-900/50 border border-slate-800 rounded-full px-4 py-1 text-slate-300 focus:outline-none focus:border-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {personas.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <span className="text-slate-500 uppercase tracking-widest text-[10px] pl-2">Language</span>
+          <button
+            onClick={() => setIsLanguageOpen(true)}
+            disabled={status !== 'disconnected' && status !== 'error'}
+            className="bg-slate-900/50 border border-slate-800 rounded-full px-4 py-1 text-slate-300 hover:text-white hover:border-slate-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-haspopup="dialog"
+          >
+            {describeLanguageSettings(languageSettings)}
+          </button>
+        </div>
+
+        {/* Visualizer Orb: green for the user's voice, blue for Vox's */}
         <div className="relative group">
+          {status === 'connected' && (
+            <>
+              <div
+                className="absolute inset-0 rounded-full border-2 border-emerald-400/70 pointer-events-none"
+                style={{
+                  opacity: isMuted ? 0 : 'var(--vox-user-level, 0)',
+                  transform: 'scale(calc(1 + var(--vox-user-level, 0) * 0.12))',
+                }}
+              />
+              <div
+                className="absolute inset-0 rounded-full border-2 border-sky-400/70 pointer-events-none"
+                style={{
+                  opacity: 'var(--vox-model-level, 0)',
+                  transform: 'scale(calc(1.04 + var(--vox-model-level, 0) * 0.16))',
+                }}
+              />
+            </>
+          )}
           <div 
             className={`w-48 h-48 rounded-full flex items-center justify-center border transition-all duration-500 ${
               status === 'connected' 
@@ -314,7 +1118,7 @@ const App: React.FC = () => {
                 : 'border-slate-800'
             }`}
             style={{
-              padding: `${20 - (intensity * 10)}px`
+              padding: 'calc(20px - var(--vox-level, 0) * 10px)'
             }}
           >
             <div 
@@ -323,12 +1127,24 @@ const App: React.FC = () => {
                   ? isMuted
                     ? 'bg-slate-800'
                     : isSpeaking ? 'bg-indigo-400' : 'bg-indigo-500' 
-                  : status === 'connecting' ? 'bg-amber-500 animate-pulse' : 'bg-slate-800'
+                  : status === 'connecting' || status === 'reconnecting' ? 'bg-amber-500 animate-pulse' : 'bg-slate-800'
               }`}
               style={{
-                transform: `scale(${0.8 + intensity * 0.4})`
+                transform: 'scale(calc(0.8 + var(--vox-level, 0) * 0.4))'
               }}
             >
+              {status === 'connected' && (
+                <>
+                  <div
+                    className="absolute inset-0 bg-gradient-to-br from-emerald-400 to-teal-500"
+                    style={{ opacity: isMuted ? 0 : 'var(--vox-user-level, 0)' }}
+                  />
+                  <div
+                    className="absolute inset-0 bg-gradient-to-tl from-sky-400 to-blue-500"
+                    style={{ opacity: 'var(--vox-model-level, 0)' }}
+                  />
+                </>
+              )}
               {isMuted && (
                 <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" className="text-slate-500">
                   <line x1="1" y1="1" x2="23" y2="23"></line>
@@ -348,11 +1164,21 @@ const App: React.FC = () => {
                 ? isMuted 
                   ? 'bg-slate-800 text-slate-500 border-slate-700'
                   : 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' 
-                : status === 'connecting'
+                : status === 'connecting' || status === 'reconnecting'
                 ? 'bg-amber-500/10 text-amber-400 border-amber-500/20'
+                : status === 'error'
+                ? 'bg-red-500/10 text-red-400 border-red-500/20'
                 : 'bg-slate-800/50 text-slate-500 border-slate-700'
             }`}>
-              {status === 'connected' && isMuted ? 'Muted' : status}
+              {status !== 'connected'
+                ? status
+                : isMuted
+                  ? 'Muted'
+                  : speaker === 'model' || speaker === 'both'
+                    ? 'Replying'
+                    : speaker === 'user'
+                      ? 'Hearing you'
+                      : status}
             </span>
           </div>
         </div>
@@ -360,7 +1186,7 @@ const App: React.FC = () => {
         {/* Controls */}
         <div className="flex flex-col items-center space-y-6 w-full">
           <div className="flex items-center space-x-4">
-            {status === 'connected' && (
+            {(status === 'connected' || status === 'reconnecting') && (
               <button
                 onClick={toggleMute}
                 className={`p-4 rounded-full transition-all border ${
@@ -369,6 +1195,8 @@ const App: React.FC = () => {
                     : 'bg-slate-800 text-slate-400 border-slate-700 hover:bg-slate-700'
                 }`}
                 title={isMuted ? "Unmute" : "Mute"}
+                aria-label={isMuted ? "Unmute" : "Mute"}
+                aria-keyshortcuts={ariaShortcut('toggleMute')}
               >
                 {isMuted ? (
                   <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="1" y1="1" x2="23" y2="23"></line><path d="M9 9v3a3 3 0 0 0 5.12 2.12M15 9.34V4a3 3 0 0 0-5.94-.6"></path><path d="M17 16.95A7 7 0 0 1 5 12v-2m14 0v2a7 7 0 0 1-.11 1.23"></path><line x1="12" y1="19" x2="12" y2="23"></line><line x1="8" y1="23" x2="16" y2="23"></line></svg>
@@ -377,20 +1205,136 @@ const App: React.FC = () => {
                 )}
               </button>
             )}
+
+            {(status === 'connected' || status === 'reconnecting') && (
+              <>
+                <button
+                  onClick={() => toggleVideo('camera')}
+                  className={`p-4 rounded-full transition-all border ${
+                    video?.source === 'camera'
+                      ? 'bg-red-500/10 text-red-400 border-red-500/20'
+                      : 'bg-slate-800 text-slate-400 border-slate-700 hover:bg-slate-700'
+                  }`}
+                  title={video?.source === 'camera' ? 'Turn Camera Off' : 'Show Camera'}
+                  aria-label={video?.source === 'camera' ? 'Turn Camera Off' : 'Show Camera'}
+                  aria-pressed={video?.source === 'camera'}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m16 13 5.223 3.482a.5.5 0 0 0 .777-.416V7.87a.5.5 0 0 0-.752-.432L16 10.5"/><rect x="2" y="6" width="14" height="12" rx="2"/></svg>
+                </button>
+                <button
+                  onClick={() => toggleVideo('screen')}
+                  className={`p-4 rounded-full transition-all border ${
+                    video?.source === 'screen'
+                      ? 'bg-red-500/10 text-red-400 border-red-500/20'
+                      : 'bg-slate-800 text-slate-400 border-slate-700 hover:bg-slate-700'
+                  }`}
+                  title={video?.source === 'screen' ? 'Stop Sharing Screen' : 'Share Screen'}
+                  aria-label={video?.source === 'screen' ? 'Stop Sharing Screen' : 'Share Screen'}
+                  aria-pressed={video?.source === 'screen'}
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect width="20" height="14" x="2" y="3" rx="2"/><line x1="8" x2="16" y1="21" y2="21"/><line x1="12" x2="12" y1="17" y2="21"/></svg>
+                </button>
+              </>
+            )}
             
             <button
               onClick={toggleConnection}
               disabled={status === 'connecting'}
+              aria-keyshortcuts={ariaShortcut('toggleConnection')}
               className={`px-10 py-4 rounded-full font-medium transition-all transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed ${
-                status === 'connected'
+                status === 'connected' || status === 'reconnecting'
                   ? 'bg-red-500/10 text-red-400 border border-red-500/20 hover:bg-red-500/20'
                   : 'bg-white text-slate-950 hover:bg-slate-100 shadow-xl'
               }`}
             >
-              {status === 'connected' ? 'End Conversation' : status === 'connecting' ? 'Connecting...' : 'Start Conversation'}
+              {status === 'connected' || status === 'reconnecting'
+                ? 'End Conversation'
+                : status === 'connecting'
+                  ? 'Connecting...'
+                  : status === 'error' ? 'Try Again' : 'Start Conversation'}
             </button>
           </div>
+
+          {isWakeListening && (
+            <p className="flex items-center space-x-2 text-xs text-emerald-400/80">
+              <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
+              <span>Say "{wakePhraseText}" to start</span>
+            </p>
+          )}
+
+          {inputSettings.mode === 'push-to-talk' && status === 'connected' && (
+            <button
+              onPointerDown={() => setPushToTalk(true)}
+              onPointerUp={() => setPushToTalk(false)}
+              onPointerLeave={() => setPushToTalk(false)}
+              onPointerCancel={() => setPushToTalk(false)}
+              disabled={isMuted}
+              aria-pressed={isVoiceActive}
+              aria-keyshortcuts={ariaShortcut('pushToTalk')}
+              className={`px-8 py-3 rounded-full text-sm font-medium border select-none touch-none transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                isVoiceActive
+                  ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/30'
+                  : 'bg-slate-900/50 text-slate-400 border-slate-800 hover:text-white'
+              }`}
+            >
+              {isVoiceActive ? 'Listening…' : 'Hold to Talk (Space)'}
+            </button>
+          )}
+
+          <InputModeControls
+            settings={inputSettings}
+            onChange={setInputSettings}
+            disabled={status !== 'disconnected' && status !== 'error'}
+            isVoiceActive={isVoiceActive}
+          />
           
+          <button
+            onClick={() => setIsRecordingEnabled(enabled => !enabled)}
+            disabled={status !== 'disconnected' && status !== 'error'}
+            className={`flex items-center space-x-2 px-4 py-1 rounded-full text-[10px] uppercase tracking-widest border transition-colors disabled:cursor-not-allowed ${
+              isRecordingEnabled
+                ? 'bg-red-500/10 text-red-400 border-red-500/20'
+                : 'text-slate-500 border-slate-800 hover:text-white hover:bg-slate-800 disabled:opacity-50'
+            }`}
+            title="Record both sides of the next conversation"
+          >
+            <span className={`w-2 h-2 rounded-full ${
+              isRecordingEnabled ? `bg-red-500 ${status === 'connected' ? 'animate-pulse' : ''}` : 'bg-slate-600'
+            }`} />
+            <span>{isRecordingEnabled && status === 'connected' ? 'Recording' : 'Record Session'}</span>
+          </button>
+
+          <button
+            onClick={() => setResponseModality(modality => (modality === Modality.TEXT ? Modality.AUDIO : Modality.TEXT))}
+            disabled={status !== 'disconnected' && status !== 'error'}
+            className={`px-4 py-1 rounded-full text-[10px] uppercase tracking-widest border transition-colors disabled:cursor-not-allowed ${
+              responseModality === Modality.TEXT
+                ? 'bg-indigo-500/10 text-indigo-300 border-indigo-500/20'
+                : 'text-slate-500 border-slate-800 hover:text-white hover:bg-slate-800 disabled:opacity-50'
+            }`}
+            title="Have Vox answer in text instead of speaking"
+          >
+            {responseModality === Modality.TEXT ? 'Text-only Replies' : 'Spoken Replies'}
+          </button>
+
+          {recording && (
+            <div className="flex items-center space-x-4 text-sm text-slate-400 bg-slate-900/50 border border-slate-800 rounded-full px-4 py-2">
+              <span>Recording ready</span>
+              <button
+                onClick={() => downloadBlob(recording.wav, `vox-session-${recording.startedAt}.wav`)}
+                className="text-indigo-300 hover:text-white transition-colors"
+              >
+                Audio (WAV)
+              </button>
+              <button
+                onClick={() => downloadBlob(recording.transcript, `vox-session-${recording.startedAt}.json`)}
+                className="text-indigo-300 hover:text-white transition-colors"
+              >
+                Turns (JSON)
+              </button>
+            </div>
+          )}
+
           {errorMessage && (
             <p className="text-red-400 text-sm max-w-md bg-red-400/10 border border-red-400/20 rounded-lg px-4 py-2">
               {errorMessage}
@@ -399,16 +1343,38 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {video && (
+        <VideoPreview
+          stream={video.stream}
+          source={video.source}
+          isPaused={isVideoPaused}
+          settings={videoSettings}
+          onSettingsChange={setVideoSettings}
+          onTogglePause={toggleVideoPause}
+          onStop={() => toggleVideo(video.source)}
+        />
+      )}
+
       {/* Footer Info */}
       <footer className="absolute bottom-8 w-full px-12 flex justify-between items-center text-slate-500 text-sm">
         <div className="flex items-center space-x-2">
           <div className={`w-2 h-2 rounded-full ${status === 'connected' ? (isMuted ? 'bg-slate-700' : 'bg-emerald-500 animate-pulse') : 'bg-slate-700'}`} />
-          <span>Gemini 2.5 Flash Live</span>
+          <span title={shownSession.model}>{describeModel(shownSession.model).label}</span>
+          {shownSession.details.length > 0 && (
+            <span className="text-slate-600 text-xs">· {shownSession.details.join(' · ')}</span>
+          )}
         </div>
         <div className="flex space-x-8 uppercase tracking-widest text-[10px]">
           <span>{isMuted ? 'Input Muted' : 'Mic Active'}</span>
-          <span>Zero Latency</span>
-          <span>Adaptive Voice</span>
+          <span className={video && !isVideoPaused ? 'text-red-400' : undefined}>
+            {!video ? 'Video Off' : isVideoPaused ? 'Video Paused' : video.source === 'camera' ? 'Camera On' : 'Screen Shared'}
+          </span>
+          <span>
+            Latency {metricsSnapshot?.totals.medianResponseLatencyMs != null
+              ? `${metricsSnapshot.totals.medianResponseLatencyMs} ms`
+              : '—'}
+          </span>
+          <span>{shownSession.voice ? `Voice ${shownSession.voice}` : 'Text Replies'}</span>
         </div>
       </footer>
     </div>
@@ -0,0 +1,116 @@
+import React from 'react';
+import { AudioDeviceList, AudioDeviceSettings as DeviceSettings, supportsOutputSelection } from '../services/audioDevices';
+import { useDialog } from './useDialog';
+
+interface AudioDeviceSettingsProps {
+  settings: DeviceSettings;
+  devices: AudioDeviceList;
+  onChange: (settings: DeviceSettings) => void;
+  onClose: () => void;
+}
+
+const selectClass = 'w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-slate-300 text-sm focus:outline-none focus:border-indigo-500 transition-colors disabled:opacity-50';
+const labelClass = 'block text-[10px] uppercase tracking-widest text-slate-500 mb-1';
+
+const PROCESSING_OPTIONS: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic gain control' },
+];
+
+const deviceLabel = (device: MediaDeviceInfo, index: number, fallback: string) =>
+  device.label || `${fallback} ${index + 1}`;
+
+const AudioDeviceSettings: React.FC<AudioDeviceSettingsProps> = ({ settings, devices, onChange, onClose }) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const canSelectOutput = supportsOutputSelection();
+  // The 'default' entries duplicate a real device; the empty option already follows the system default
+  const inputs = devices.inputs.filter(device => device.deviceId && device.deviceId !== 'default');
+  const outputs = devices.outputs.filter(device => device.deviceId && device.deviceId !== 'default');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-300">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="audio-device-settings-title"
+        tabIndex={-1}
+        className="bg-slate-900 w-full max-w-lg rounded-2xl border border-slate-800 shadow-2xl overflow-hidden animate-in slide-in-from-bottom-4 zoom-in-95 duration-300"
+      >
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 id="audio-device-settings-title" className="text-xl font-medium text-white">Audio Devices</h2>
+            <p className="text-slate-500 text-sm">Changes apply immediately, even mid-conversation</p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-2 rounded-lg hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className={labelClass}>Microphone</label>
+            <select
+              className={selectClass}
+              value={settings.inputDeviceId}
+              onChange={(e) => onChange({ ...settings, inputDeviceId: e.target.value })}
+            >
+              <option value="">System default</option>
+              {inputs.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i, 'Microphone')}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>Speaker</label>
+            <select
+              className={selectClass}
+              value={settings.outputDeviceId}
+              disabled={!canSelectOutput}
+              onChange={(e) => onChange({ ...settings, outputDeviceId: e.target.value })}
+            >
+              <option value="">System default</option>
+              {outputs.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i, 'Speaker')}</option>
+              ))}
+            </select>
+            {!canSelectOutput && (
+              <p className="text-slate-600 text-xs mt-1">This browser always plays through the system default speaker.</p>
+            )}
+          </div>
+
+          <div className="space-y-2 pt-2">
+            {PROCESSING_OPTIONS.map(option => (
+              <label key={option.key} className="flex items-center justify-between text-sm text-slate-300">
+                <span>{option.label}</span>
+                <input
+                  type="checkbox"
+                  checked={settings[option.key]}
+                  onChange={(e) => onChange({ ...settings, [option.key]: e.target.checked })}
+                  className="w-4 h-4 accent-indigo-500"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6 bg-slate-900/50 border-t border-slate-800 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-full font-medium hover:bg-indigo-500 transition-colors shadow-lg shadow-indigo-500/20"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioDeviceSettings;
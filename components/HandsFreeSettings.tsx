@@ -0,0 +1,105 @@
+import React from 'react';
+import { SHORTCUTS, formatShortcut } from '../services/shortcuts';
+import { WakePhraseSettings, supportsWakePhrase } from '../services/wakePhrase';
+import { useDialog } from './useDialog';
+
+interface HandsFreeSettingsProps {
+  wakePhrase: WakePhraseSettings;
+  isWakeListening: boolean;
+  onWakePhraseChange: (settings: WakePhraseSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-slate-300 text-sm focus:outline-none focus:border-indigo-500 transition-colors disabled:opacity-50';
+const labelClass = 'block text-[10px] uppercase tracking-widest text-slate-500 mb-1';
+
+const HandsFreeSettings: React.FC<HandsFreeSettingsProps> = ({ wakePhrase, isWakeListening, onWakePhraseChange, onClose }) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const canUseWakePhrase = supportsWakePhrase();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-300">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="hands-free-settings-title"
+        tabIndex={-1}
+        className="bg-slate-900 w-full max-w-lg rounded-2xl border border-slate-800 shadow-2xl overflow-hidden animate-in slide-in-from-bottom-4 zoom-in-95 duration-300"
+      >
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 id="hands-free-settings-title" className="text-xl font-medium text-white">Hands-free</h2>
+            <p className="text-slate-500 text-sm">Keyboard shortcuts and the wake phrase</p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-2 rounded-lg hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="space-y-3">
+            <label className="flex items-center justify-between text-sm text-slate-300">
+              <span>Start with a wake phrase</span>
+              <input
+                type="checkbox"
+                checked={wakePhrase.enabled}
+                disabled={!canUseWakePhrase}
+                onChange={(e) => onWakePhraseChange({ ...wakePhrase, enabled: e.target.checked })}
+                className="w-4 h-4 accent-indigo-500"
+              />
+            </label>
+            <div>
+              <label htmlFor="wake-phrase" className={labelClass}>Wake phrase</label>
+              <input
+                id="wake-phrase"
+                className={inputClass}
+                value={wakePhrase.phrase}
+                disabled={!canUseWakePhrase}
+                onChange={(e) => onWakePhraseChange({ ...wakePhrase, phrase: e.target.value })}
+              />
+            </div>
+            <p className="text-slate-600 text-xs">
+              {canUseWakePhrase
+                ? isWakeListening
+                  ? `Listening on this device for "${wakePhrase.phrase.trim()}". Nothing is sent until it is heard.`
+                  : 'The phrase is recognised on this device. Nothing is sent until it is heard.'
+                : 'This browser cannot recognise speech on the device, so the wake phrase is unavailable.'}
+            </p>
+          </div>
+
+          <div>
+            <h3 className={labelClass}>Keyboard shortcuts</h3>
+            <dl className="divide-y divide-slate-800 text-sm">
+              {SHORTCUTS.map(shortcut => (
+                <div key={shortcut.action} className="flex items-center justify-between py-2">
+                  <dt className="text-slate-300">{shortcut.description}</dt>
+                  <dd>
+                    <kbd className="px-2 py-0.5 rounded-md bg-slate-800 border border-slate-700 text-slate-300 text-xs font-mono">
+                      {formatShortcut(shortcut)}
+                    </kbd>
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </div>
+
+        <div className="p-6 bg-slate-900/50 border-t border-slate-800 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-full font-medium hover:bg-indigo-500 transition-colors shadow-lg shadow-indigo-500/20"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HandsFreeSettings;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { InputSettings, VadSettings } from '../types';
+import { INPUT_MODES } from '../services/voiceActivity';
+
+interface InputModeControlsProps {
+  settings: InputSettings;
+  onChange: (settings: InputSettings) => void;
+  // Mode and thresholds are fixed for the lifetime of a session
+  disabled: boolean;
+  isVoiceActive: boolean;
+}
+
+const VAD_SLIDERS: { key: keyof VadSettings; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+  { key: 'energyThreshold', label: 'Sensitivity threshold', min: 0.005, max: 0.1, step: 0.005, format: v => v.toFixed(3) },
+  { key: 'maxZeroCrossingRate', label: 'Noise rejection (ZCR)', min: 0.1, max: 0.6, step: 0.05, format: v => v.toFixed(2) },
+  { key: 'attackMs', label: 'Attack', min: 20, max: 300, step: 20, format: v => `${v} ms` },
+  { key: 'hangoverMs', label: 'Hangover', min: 100, max: 2000, step: 100, format: v => `${v} ms` },
+];
+
+const InputModeControls: React.FC<InputModeControlsProps> = ({ settings, onChange, disabled, isVoiceActive }) => {
+  const [isTuningOpen, setIsTuningOpen] = useState(false);
+
+  const updateVad = (key: keyof VadSettings, value: number) => {
+    onChange({ ...settings, vad: { ...settings.vad, [key]: value } });
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-3">
+      <div className="flex items-center p-1 rounded-full bg-slate-900/50 border border-slate-800">
+        {INPUT_MODES.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onChange({ ...settings, mode: option.value })}
+            disabled={disabled}
+            className={`px-4 py-1 rounded-full text-[10px] uppercase tracking-widest transition-colors disabled:cursor-not-allowed ${
+              settings.mode === option.value
+                ? 'bg-slate-700 text-white'
+                : 'text-slate-500 hover:text-white disabled:hover:text-slate-500'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {settings.mode === 'vad' && (
+        <div className="flex flex-col items-center space-y-2 w-64">
+          {/* VAD Indicator */}
+          <div className="flex items-center space-x-3 w-full">
+            <div className={`w-2 h-2 rounded-full transition-colors ${isVoiceActive ? 'bg-emerald-400' : 'bg-slate-700'}`} />
+            <div className="flex-1 h-1 rounded-full bg-slate-800 overflow-hidden">
+              <div
+                className={`h-full transition-[width] duration-75 ${isVoiceActive ? 'bg-emerald-400' : 'bg-slate-500'}`}
+                // --vox-user-level is set on an ancestor every frame, without re-rendering
+                style={{ width: 'calc(min(1, var(--vox-user-level, 0)) * 100%)' }}
+              />
+            </div>
+            <button
+              onClick={() => setIsTuningOpen(open => !open)}
+              className="text-[10px] uppercase tracking-widest text-slate-500 hover:text-white transition-colors"
+            >
+              {isTuningOpen ? 'Hide' : 'Tune'}
+            </button>
+          </div>
+
+          {isTuningOpen && (
+            <div className="w-full space-y-2 bg-slate-900/50 border border-slate-800 rounded-xl p-3">
+              {VAD_SLIDERS.map(slider => (
+                <label key={slider.key} className="block">
+                  <div className="flex justify-between text-[10px] uppercase tracking-widest text-slate-500">
+                    <span>{slider.label}</span>
+                    <span>{slider.format(settings.vad[slider.key])}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={slider.min}
+                    max={slider.max}
+                    step={slider.step}
+                    value={settings.vad[slider.key]}
+                    disabled={disabled}
+                    onChange={(e) => updateVad(slider.key, Number(e.target.value))}
+                    className="w-full accent-indigo-500 disabled:opacity-50"
+                  />
+                </label>
+              ))}
+              {disabled && <p className="text-amber-400/80 text-[10px]">Changes will take effect after you reconnect.</p>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InputModeControls;
@@ -0,0 +1,152 @@
+import React from 'react';
+import { LanguageSettings } from '../types';
+import { LANGUAGES, LANGUAGE_MODES, languageLabel, resolveVoice } from '../services/languages';
+import { useDialog } from './useDialog';
+
+interface LanguageSettingsPanelProps {
+  settings: LanguageSettings;
+  personaVoice: string;
+  onChange: (settings: LanguageSettings) => void;
+  onClose: () => void;
+}
+
+const selectClass = 'w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-slate-300 text-sm focus:outline-none focus:border-indigo-500 transition-colors';
+const labelClass = 'block text-[10px] uppercase tracking-widest text-slate-500 mb-1';
+
+const LanguageSettingsPanel: React.FC<LanguageSettingsPanelProps> = ({ settings, personaVoice, onChange, onClose }) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const showsPrimary = settings.mode !== 'auto' || settings.interpreter;
+  const primaryLabel = settings.mode === 'bilingual'
+    ? 'First language'
+    : settings.interpreter && settings.mode === 'auto' ? 'Translate into' : 'Language';
+  const voice = resolveVoice(personaVoice, settings);
+
+  // Picking the other language of the pair as the first swaps them
+  const setPrimary = (primary: string) => {
+    onChange({ ...settings, primary, secondary: primary === settings.secondary ? settings.primary : settings.secondary });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-300">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="language-settings-title"
+        tabIndex={-1}
+        className="bg-slate-900 w-full max-w-lg rounded-2xl border border-slate-800 shadow-2xl overflow-hidden animate-in slide-in-from-bottom-4 zoom-in-95 duration-300"
+      >
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 id="language-settings-title" className="text-xl font-medium text-white">Language</h2>
+            <p className="text-slate-500 text-sm">Applies from the next conversation</p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-2 rounded-lg hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div role="radiogroup" aria-label="Language mode" className="flex items-center p-1 rounded-full bg-slate-950 border border-slate-800">
+            {LANGUAGE_MODES.map(option => (
+              <button
+                key={option.value}
+                role="radio"
+                aria-checked={settings.mode === option.value}
+                onClick={() => onChange({ ...settings, mode: option.value })}
+                className={`flex-1 px-4 py-1 rounded-full text-[10px] uppercase tracking-widest transition-colors ${
+                  settings.mode === option.value ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-white'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-slate-600 text-xs">
+            {settings.mode === 'auto'
+              ? 'Vox follows the persona and mirrors the language the user speaks.'
+              : settings.mode === 'locked'
+                ? 'Vox always answers in one language, whatever the user speaks.'
+                : 'Vox answers in whichever of the two languages the user last spoke, and never any other.'}
+          </p>
+
+          {showsPrimary && (
+            <div>
+              <label htmlFor="language-primary" className={labelClass}>{primaryLabel}</label>
+              <select
+                id="language-primary"
+                className={selectClass}
+                value={settings.primary}
+                onChange={(e) => setPrimary(e.target.value)}
+              >
+                {LANGUAGES.map(language => <option key={language.id} value={language.id}>{language.label}</option>)}
+              </select>
+            </div>
+          )}
+
+          {settings.mode === 'bilingual' && (
+            <div>
+              <label htmlFor="language-secondary" className={labelClass}>Second language</label>
+              <select
+                id="language-secondary"
+                className={selectClass}
+                value={settings.secondary}
+                onChange={(e) => onChange({ ...settings, secondary: e.target.value })}
+              >
+                {LANGUAGES.filter(language => language.id !== settings.primary).map(language => (
+                  <option key={language.id} value={language.id}>{language.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-2 pt-2">
+            <label className="flex items-center justify-between text-sm text-slate-300">
+              <span>Interpreter mode</span>
+              <input
+                type="checkbox"
+                checked={settings.interpreter}
+                onChange={(e) => onChange({ ...settings, interpreter: e.target.checked })}
+                className="w-4 h-4 accent-indigo-500"
+              />
+            </label>
+            {settings.interpreter && (
+              <p className="text-slate-600 text-xs">
+                {settings.mode === 'bilingual'
+                  ? `Vox translates between ${languageLabel(settings.primary)} and ${languageLabel(settings.secondary)} instead of answering.`
+                  : `Vox translates everything said into ${languageLabel(settings.primary)} instead of answering.`}
+              </p>
+            )}
+            <label className="flex items-center justify-between text-sm text-slate-300">
+              <span>Match the voice to the language</span>
+              <input
+                type="checkbox"
+                checked={settings.matchVoice}
+                onChange={(e) => onChange({ ...settings, matchVoice: e.target.checked })}
+                className="w-4 h-4 accent-indigo-500"
+              />
+            </label>
+            <p className="text-slate-600 text-xs">
+              Voice: {voice}{voice === personaVoice ? ' (from the persona)' : ` (for ${languageLabel(settings.primary)})`}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-6 bg-slate-900/50 border-t border-slate-800 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-full font-medium hover:bg-indigo-500 transition-colors shadow-lg shadow-indigo-500/20"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LanguageSettingsPanel;
@@ -0,0 +1,27 @@
+import React from 'react';
+
+export interface Announcement {
+  text: string;
+  // Interrupts the screen reader; keep for errors
+  assertive: boolean;
+  // Changes on every announcement so repeated text is read again
+  id: number;
+}
+
+interface LiveAnnouncerProps {
+  announcement: Announcement | null;
+}
+
+/** Visually hidden live regions that screen readers read out as announcements change. */
+const LiveAnnouncer: React.FC<LiveAnnouncerProps> = ({ announcement }) => (
+  <>
+    <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+      {announcement && !announcement.assertive && <span key={announcement.id}>{announcement.text}</span>}
+    </div>
+    <div role="alert" aria-live="assertive" aria-atomic="true" className="sr-only">
+      {announcement?.assertive && <span key={announcement.id}>{announcement.text}</span>}
+    </div>
+  </>
+);
+
+export default LiveAnnouncer;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { Memory, Persona } from '../types';
+import { useDialog } from './useDialog';
+
+interface MemoryPanelProps {
+  memories: Memory[];
+  personas: Persona[];
+  enabled: boolean;
+  onToggleEnabled: (enabled: boolean) => void;
+  onTogglePin: (memory: Memory) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({
+  memories,
+  personas,
+  enabled,
+  onToggleEnabled,
+  onTogglePin,
+  onDelete,
+  onClear,
+  onClose,
+}) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const personaName = (id: string) => personas.find(p => p.id === id)?.name ?? 'Deleted persona';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-300">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="memory-panel-title"
+        tabIndex={-1}
+        className="bg-slate-900 w-full max-w-2xl rounded-2xl border border-slate-800 shadow-2xl overflow-hidden flex flex-col max-h-[90vh] animate-in slide-in-from-bottom-4 zoom-in-95 duration-300"
+      >
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 id="memory-panel-title" className="text-xl font-medium text-white">Memory</h2>
+            <p className="text-slate-500 text-sm">Pinned memories and the three most recent are shared with Vox</p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-2 rounded-lg hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-slate-800">
+          <label className="flex items-center justify-between text-sm text-slate-300">
+            <span>Remember conversations</span>
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => onToggleEnabled(e.target.checked)}
+              className="w-4 h-4 accent-indigo-500"
+            />
+          </label>
+          <p className="text-slate-600 text-xs mt-1">When a conversation ends, its transcript is sent to the Vox server and summarised by Gemini. Summaries are kept in this browser and shared with Vox in later conversations.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {memories.length === 0 ? (
+            <p className="text-center text-slate-600 text-sm py-8">No memories yet. They are saved when a conversation ends.</p>
+          ) : (
+            memories.map(memory => (
+              <div
+                key={memory.id}
+                className={`p-4 rounded-xl border ${
+                  memory.pinned ? 'border-indigo-500/50 bg-indigo-500/5' : 'border-slate-800 bg-slate-950/50'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-[10px] uppercase tracking-widest text-slate-500">
+                    {formatDate(memory.createdAt)} · {personaName(memory.personaId)}
+                  </span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => onTogglePin(memory)}
+                      aria-pressed={memory.pinned}
+                      className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                        memory.pinned ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                      }`}
+                    >
+                      {memory.pinned ? 'Pinned' : 'Pin'}
+                    </button>
+                    <button
+                      onClick={() => onDelete(memory.id)}
+                      className="px-3 py-1 rounded-full text-xs text-slate-400 hover:text-red-400 hover:bg-slate-800 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <p className="text-sm text-slate-300 whitespace-pre-line">{memory.summary}</p>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="p-6 bg-slate-900/50 border-t border-slate-800 flex justify-between">
+          <button
+            onClick={onClear}
+            disabled={memories.length === 0}
+            className="px-4 py-2 text-sm text-slate-400 hover:text-red-400 transition-colors disabled:opacity-30 disabled:hover:text-slate-400"
+          >
+            Clear all
+          </button>
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-full font-medium hover:bg-indigo-500 transition-colors shadow-lg shadow-indigo-500/20"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryPanel;
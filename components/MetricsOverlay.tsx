@@ -0,0 +1,100 @@
+import React from 'react';
+import { SessionMetricsSnapshot } from '../services/sessionMetrics';
+
+interface MetricsOverlayProps {
+  snapshot: SessionMetricsSnapshot | null;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+// Only the latest turns fit; the export has all of them
+const VISIBLE_TURNS = 8;
+
+const formatMs = (ms: number | null) => (ms === null ? '—' : `${Math.round(ms)} ms`);
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+const MetricsOverlay: React.FC<MetricsOverlayProps> = ({ snapshot, onExport, onClose }) => {
+  const totals = snapshot?.totals;
+  const stats: [string, string][] = totals ? [
+    ['Median latency', formatMs(totals.medianResponseLatencyMs)],
+    ['P90 latency', formatMs(totals.p90ResponseLatencyMs)],
+    ['Turns', String(totals.turns)],
+    ['Interruptions', String(totals.interruptions)],
+    ['Underruns', String(totals.underruns)],
+    ['Gaps', formatMs(totals.gapMs)],
+    ['Sent', formatBytes(totals.bytesSent)],
+    ['Received', formatBytes(totals.bytesReceived)],
+  ] : [];
+
+  return (
+    <div className="fixed bottom-20 left-8 z-30 w-[26rem] max-w-[calc(100vw-4rem)] bg-slate-900/95 backdrop-blur border border-slate-800 rounded-2xl shadow-2xl font-mono text-xs text-slate-300">
+      <div className="px-4 py-3 border-b border-slate-800 flex justify-between items-center">
+        <span className="uppercase tracking-widest text-[10px] text-slate-500">Session Metrics</span>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onExport}
+            disabled={!snapshot}
+            className="px-2 py-1 rounded-lg uppercase tracking-widest text-[10px] text-indigo-300 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+            title="Close Metrics"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+      </div>
+
+      {!snapshot ? (
+        <p className="p-4 text-slate-600">Start a conversation to collect metrics.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-4 gap-px bg-slate-800">
+            {stats.map(([label, value]) => (
+              <div key={label} className="bg-slate-900 px-3 py-2">
+                <div className="text-[9px] uppercase tracking-widest text-slate-500">{label}</div>
+                <div className="text-slate-200">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <table className="w-full text-left">
+            <thead className="text-[9px] uppercase tracking-widest text-slate-500">
+              <tr>
+                <th className="px-3 py-2">#</th>
+                <th className="px-3 py-2">Latency</th>
+                <th className="px-3 py-2">Queue max</th>
+                <th className="px-3 py-2">Underruns</th>
+                <th className="px-3 py-2">In / Out</th>
+              </tr>
+            </thead>
+            <tbody>
+              {snapshot.turns.slice(-VISIBLE_TURNS).map(turn => (
+                <tr key={turn.index} className="border-t border-slate-800/60">
+                  <td className="px-3 py-1 text-slate-500">
+                    {turn.index + 1}{turn.interrupted && <span className="text-amber-400" title="Interrupted">!</span>}
+                  </td>
+                  <td className="px-3 py-1">{formatMs(turn.responseLatencyMs)}</td>
+                  <td className="px-3 py-1">{formatMs(turn.maxQueueDepthMs)}</td>
+                  <td className="px-3 py-1">{turn.underruns}{turn.gapMs > 0 && <span className="text-slate-500"> ({formatMs(turn.gapMs)})</span>}</td>
+                  <td className="px-3 py-1">{formatBytes(turn.bytesSent)} / {formatBytes(turn.bytesReceived)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {snapshot.turns.length === 0 && <p className="px-4 pb-3 text-slate-600">No completed turns yet.</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MetricsOverlay;
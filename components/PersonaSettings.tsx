@@ -0,0 +1,212 @@
+import React, { useRef, useState } from 'react';
+import { Persona } from '../types';
+import {
+  PREBUILT_VOICES,
+  RESPONSE_LENGTHS,
+  createPersona,
+  exportPersonas,
+  importPersonas,
+  mergePersonas,
+} from '../services/personaStore';
+import { downloadBlob } from '../services/fileUtils';
+import { useDialog } from './useDialog';
+
+interface PersonaSettingsProps {
+  personas: Persona[];
+  activePersonaId: string;
+  isConnected: boolean;
+  onChange: (personas: Persona[]) => void;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-slate-300 text-sm focus:outline-none focus:border-indigo-500 transition-colors';
+const labelClass = 'block text-[10px] uppercase tracking-widest text-slate-500 mb-1';
+
+const PersonaSettings: React.FC<PersonaSettingsProps> = ({
+  personas,
+  activePersonaId,
+  isConnected,
+  onChange,
+  onSelect,
+  onClose,
+}) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const persona = personas.find(p => p.id === activePersonaId) ?? personas[0];
+
+  const updatePersona = (changes: Partial<Persona>) => {
+    onChange(personas.map(p => (p.id === persona.id ? { ...p, ...changes } : p)));
+  };
+
+  const addPersona = () => {
+    const created = createPersona();
+    onChange([...personas, created]);
+    onSelect(created.id);
+  };
+
+  const duplicatePersona = () => {
+    const copy = createPersona({ ...persona, name: `${persona.name} (copy)` });
+    onChange([...personas, copy]);
+    onSelect(copy.id);
+  };
+
+  const deletePersona = () => {
+    if (personas.length <= 1) return;
+    const remaining = personas.filter(p => p.id !== persona.id);
+    onChange(remaining);
+    onSelect(remaining[0].id);
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportPersonas(personas)], { type: 'application/json' }), 'vox-personas.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importPersonas(await file.text());
+      onChange(mergePersonas(personas, imported));
+      onSelect(imported[0].id);
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message || 'Could not import personas.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-300">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="persona-settings-title"
+        tabIndex={-1}
+        className="bg-slate-900 w-full max-w-4xl rounded-2xl border border-slate-800 shadow-2xl overflow-hidden animate-in slide-in-from-bottom-4 zoom-in-95 duration-300"
+      >
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 id="persona-settings-title" className="text-xl font-medium text-white">Personas</h2>
+            <p className="text-slate-500 text-sm">Define how Vox speaks and behaves</p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-2 rounded-lg hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row">
+          {/* Persona List */}
+          <div className="md:w-56 p-4 border-b md:border-b-0 md:border-r border-slate-800 flex flex-col space-y-1">
+            {personas.map(p => (
+              <button
+                key={p.id}
+                onClick={() => onSelect(p.id)}
+                className={`text-left px-3 py-2 rounded-lg text-sm truncate transition-colors ${
+                  p.id === persona.id ? 'bg-indigo-500/15 text-indigo-200' : 'text-slate-400 hover:bg-slate-800 hover:text-white'
+                }`}
+              >
+                {p.name}
+              </button>
+            ))}
+            <button
+              onClick={addPersona}
+              className="text-left px-3 py-2 rounded-lg text-sm text-slate-500 hover:bg-slate-800 hover:text-white transition-colors"
+            >
+              + New persona
+            </button>
+            <div className="pt-4 mt-auto flex space-x-2 text-[10px] uppercase tracking-widest">
+              <button onClick={() => fileInputRef.current?.click()} className="text-slate-500 hover:text-white transition-colors">Import</button>
+              <span className="text-slate-700">/</span>
+              <button onClick={handleExport} className="text-slate-500 hover:text-white transition-colors">Export</button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+            {importError && <p className="text-red-400 text-xs pt-2">{importError}</p>}
+          </div>
+
+          {/* Persona Editor */}
+          <div className="flex-1 p-6 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input className={inputClass} value={persona.name} onChange={(e) => updatePersona({ name: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Voice</label>
+                <select className={inputClass} value={persona.voice} onChange={(e) => updatePersona({ voice: e.target.value })}>
+                  {PREBUILT_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Language hint</label>
+                <input
+                  className={inputClass}
+                  value={persona.languageHint}
+                  onChange={(e) => updatePersona({ languageHint: e.target.value })}
+                  placeholder="Mirror the user"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Response length</label>
+                <select
+                  className={inputClass}
+                  value={persona.responseLength}
+                  onChange={(e) => updatePersona({ responseLength: e.target.value as Persona['responseLength'] })}
+                >
+                  {RESPONSE_LENGTHS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Instructions</label>
+              <textarea
+                value={persona.instructions}
+                onChange={(e) => updatePersona({ instructions: e.target.value })}
+                className="w-full h-64 bg-slate-950 border border-slate-800 rounded-xl p-4 text-slate-300 font-mono text-sm focus:outline-none focus:border-indigo-500 transition-colors resize-none"
+                placeholder="Enter system instructions for the AI..."
+              />
+            </div>
+            {isConnected && (
+              <div className="flex items-center space-x-2 text-amber-400/80 text-xs">
+                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3Z"/><path d="M12 9v4"/><path d="M12 17h.01"/></svg>
+                <span>Changes will take effect after you reconnect.</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 bg-slate-900/50 border-t border-slate-800 flex justify-between">
+          <div className="flex space-x-2">
+            <button
+              onClick={duplicatePersona}
+              className="px-4 py-2 rounded-full text-sm text-slate-400 border border-slate-800 hover:text-white hover:bg-slate-800 transition-colors"
+            >
+              Duplicate
+            </button>
+            <button
+              onClick={deletePersona}
+              disabled={personas.length <= 1}
+              className="px-4 py-2 rounded-full text-sm text-red-400 border border-red-500/20 hover:bg-red-500/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Delete
+            </button>
+          </div>
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-full font-medium hover:bg-indigo-500 transition-colors shadow-lg shadow-indigo-500/20"
+          >
+            Apply Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaSettings;
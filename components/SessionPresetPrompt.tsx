@@ -0,0 +1,58 @@
+import React from 'react';
+import { useDialog } from './useDialog';
+
+interface SessionPresetPromptProps {
+  // From describeSessionChanges: one "Label: from → to" line per setting
+  changes: string[];
+  onApply: () => void;
+  onDismiss: () => void;
+}
+
+/** Asks before a shared settings link replaces the saved session settings. */
+const SessionPresetPrompt: React.FC<SessionPresetPromptProps> = ({ changes, onApply, onDismiss }) => {
+  const dialogRef = useDialog<HTMLDivElement>(onDismiss);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-300">
+      <div
+        ref={dialogRef}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-preset-title"
+        aria-describedby="session-preset-description"
+        tabIndex={-1}
+        className="bg-slate-900 w-full max-w-md max-h-full flex flex-col rounded-2xl border border-slate-800 shadow-2xl overflow-hidden animate-in slide-in-from-bottom-4 zoom-in-95 duration-300"
+      >
+        <div className="p-6 border-b border-slate-800">
+          <h2 id="session-preset-title" className="text-xl font-medium text-white">Apply shared settings?</h2>
+          <p id="session-preset-description" className="text-slate-500 text-sm">
+            This link changes your session settings. They stay saved in this browser until you change them again.
+          </p>
+        </div>
+
+        <ul className="p-6 space-y-2 overflow-y-auto text-sm text-slate-300">
+          {changes.map(change => (
+            <li key={change} className="px-4 py-2 rounded-xl bg-slate-950 border border-slate-800">{change}</li>
+          ))}
+        </ul>
+
+        <div className="p-6 bg-slate-900/50 border-t border-slate-800 flex justify-end gap-3">
+          <button
+            onClick={onDismiss}
+            className="px-6 py-2 rounded-full font-medium text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+          >
+            Keep mine
+          </button>
+          <button
+            onClick={onApply}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-full font-medium hover:bg-indigo-500 transition-colors shadow-lg shadow-indigo-500/20"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionPresetPrompt;
@@ -0,0 +1,429 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { InputMode, Modality, SessionSettings, SpeechSensitivity } from '../types';
+import { LIVE_MODELS, describeModel } from '../services/liveModels';
+import { PREBUILT_VOICES } from '../services/personaStore';
+import {
+  DEFAULT_SESSION_SETTINGS,
+  NUMBER_LIMITS,
+  NumberLimit,
+  SENSITIVITY_OPTIONS,
+  buildShareUrl,
+  exportSessionPreset,
+  importSessionPreset,
+  isValidModelName,
+  resolveModel,
+  validateNumber,
+  validateSessionSettings,
+} from '../services/sessionSettings';
+import { downloadBlob } from '../services/fileUtils';
+import { useDialog } from './useDialog';
+
+interface SessionSettingsPanelProps {
+  settings: SessionSettings;
+  responseModality: Modality;
+  inputMode: InputMode;
+  // The voice used when none is chosen here
+  defaultVoice: string;
+  isConnected: boolean;
+  onChange: (settings: SessionSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-slate-300 text-sm focus:outline-none focus:border-indigo-500 transition-colors disabled:opacity-40';
+const labelClass = 'block text-[10px] uppercase tracking-widest text-slate-500 mb-1';
+const sectionClass = 'space-y-3 pt-4 border-t border-slate-800 first:border-t-0 first:pt-0';
+const CUSTOM_MODEL = '__custom__';
+
+interface NumberFieldProps {
+  id: string;
+  limit: NumberLimit;
+  value: number | null;
+  unit?: string;
+  disabled?: boolean;
+  onChange: (value: number | null) => void;
+}
+
+// Empty means the server default; out-of-range input is shown but not applied
+const NumberField: React.FC<NumberFieldProps> = ({ id, limit, value, unit, disabled, onChange }) => {
+  const [text, setText] = useState(value === null ? '' : String(value));
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow outside changes such as an import or reset
+  useEffect(() => {
+    setText(current => (current.trim() === '' ? null : Number(current)) === value ? current : value === null ? '' : String(value));
+    setError(null);
+  }, [value]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const parsed = next.trim() === '' ? null : Number(next);
+    const problem = validateNumber(limit, parsed);
+    setError(problem);
+    if (!problem) onChange(parsed);
+  };
+
+  return (
+    <div>
+      <label htmlFor={id} className={labelClass}>{limit.label}{unit ? ` (${unit})` : ''}</label>
+      <input
+        id={id}
+        type="number"
+        inputMode="decimal"
+        min={limit.min}
+        max={limit.max}
+        step={limit.step}
+        value={text}
+        disabled={disabled}
+        placeholder="Default"
+        aria-invalid={!!error}
+        aria-describedby={error ? `${id}-error` : undefined}
+        onChange={(e) => handleChange(e.target.value)}
+        className={inputClass}
+      />
+      {error && <p id={`${id}-error`} className="text-red-400 text-xs pt-1">{error}</p>}
+    </div>
+  );
+};
+
+const SensitivityField: React.FC<{
+  id: string;
+  label: string;
+  value: SpeechSensitivity;
+  disabled: boolean;
+  onChange: (value: SpeechSensitivity) => void;
+}> = ({ id, label, value, disabled, onChange }) => (
+  <div>
+    <label htmlFor={id} className={labelClass}>{label}</label>
+    <select
+      id={id}
+      className={inputClass}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value as SpeechSensitivity)}
+    >
+      {SENSITIVITY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+    </select>
+  </div>
+);
+
+const SessionSettingsPanel: React.FC<SessionSettingsPanelProps> = ({
+  settings,
+  responseModality,
+  inputMode,
+  defaultVoice,
+  isConnected,
+  onChange,
+  onClose,
+}) => {
+  const dialogRef = useDialog<HTMLDivElement>(onClose);
+  // Edits that break a rule spanning several fields stay here until they are fixed
+  const [draft, setDraft] = useState(settings);
+  const [isCustomModel, setIsCustomModel] = useState(!!settings.model && !LIVE_MODELS.some(model => model.name === settings.model));
+  const [customModel, setCustomModel] = useState(isCustomModel ? settings.model : '');
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const textOnly = responseModality === Modality.TEXT;
+  const activeModel = describeModel(resolveModel(draft, responseModality));
+  const serverDetection = inputMode === 'open';
+  const errors = validateSessionSettings(draft);
+  const customModelError = isCustomModel && customModel && !isValidModelName(customModel)
+    ? 'Use the model id, e.g. gemini-live-2.5-flash-preview.'
+    : null;
+
+  const update = (next: SessionSettings) => {
+    setDraft(next);
+    if (validateSessionSettings(next).length === 0) onChange(next);
+  };
+
+  const replace = (next: SessionSettings) => {
+    const custom = !!next.model && !LIVE_MODELS.some(model => model.name === next.model);
+    setIsCustomModel(custom);
+    setCustomModel(custom ? next.model : '');
+    update(next);
+  };
+
+  const selectModel = (value: string) => {
+    if (value === CUSTOM_MODEL) {
+      setIsCustomModel(true);
+      if (isValidModelName(customModel)) update({ ...draft, model: customModel });
+      return;
+    }
+    setIsCustomModel(false);
+    update({ ...draft, model: value });
+  };
+
+  const changeCustomModel = (value: string) => {
+    setCustomModel(value);
+    if (isValidModelName(value)) update({ ...draft, model: value });
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportSessionPreset(draft)], { type: 'application/json' }), 'vox-session.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      replace(importSessionPreset(await file.text()));
+      setNotice({ text: 'Preset imported.', error: false });
+    } catch (err: any) {
+      setNotice({ text: err.message || 'Could not import the preset.', error: true });
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(draft, window.location));
+      setNotice({ text: 'Link copied. Opening it offers to apply these settings.', error: false });
+    } catch {
+      setNotice({ text: 'Could not copy the link.', error: true });
+    }
+  };
+
+  const { activityDetection, generation, contextCompression } = draft;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-in fade-in duration-300">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="session-settings-title"
+        tabIndex={-1}
+        className="bg-slate-900 w-full max-w-2xl max-h-full flex flex-col rounded-2xl border border-slate-800 shadow-2xl overflow-hidden animate-in slide-in-from-bottom-4 zoom-in-95 duration-300"
+      >
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <div>
+            <h2 id="session-settings-title" className="text-xl font-medium text-white">Session</h2>
+            <p className="text-slate-500 text-sm">Model, voice and turn-taking for the next conversation</p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="p-2 rounded-lg hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <section aria-labelledby="session-model-heading" className={sectionClass}>
+            <h3 id="session-model-heading" className="text-sm font-medium text-slate-300">Model and voice</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="session-model" className={labelClass}>Model</label>
+                <select
+                  id="session-model"
+                  className={inputClass}
+                  value={isCustomModel ? CUSTOM_MODEL : draft.model}
+                  onChange={(e) => selectModel(e.target.value)}
+                >
+                  <option value="">Automatic</option>
+                  {LIVE_MODELS.map(model => <option key={model.name} value={model.name}>{model.label}</option>)}
+                  <option value={CUSTOM_MODEL}>Custom…</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="session-voice" className={labelClass}>Voice</label>
+                <select
+                  id="session-voice"
+                  className={inputClass}
+                  value={draft.voice}
+                  disabled={textOnly}
+                  onChange={(e) => update({ ...draft, voice: e.target.value })}
+                >
+                  <option value="">Persona voice ({defaultVoice})</option>
+                  {PREBUILT_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                </select>
+              </div>
+            </div>
+            {isCustomModel && (
+              <div>
+                <label htmlFor="session-custom-model" className={labelClass}>Custom model id</label>
+                <input
+                  id="session-custom-model"
+                  type="text"
+                  spellCheck={false}
+                  value={customModel}
+                  onChange={(e) => changeCustomModel(e.target.value.trim())}
+                  placeholder="gemini-live-2.5-flash-preview"
+                  aria-invalid={!!customModelError}
+                  className={`${inputClass} font-mono`}
+                />
+                <p className={`text-xs pt-1 ${customModelError ? 'text-red-400' : 'text-slate-600'}`}>
+                  {customModelError ?? 'The token server must allow this model (VOX_ALLOWED_MODELS).'}
+                </p>
+              </div>
+            )}
+            <p className="text-slate-600 text-xs">
+              Uses {activeModel.label}
+              {draft.model && activeModel.name !== draft.model ? ', because the chosen model cannot reply in text' : ''}
+              {textOnly ? '. Replies are text-only, so no voice is used.' : '.'}
+            </p>
+          </section>
+
+          <section aria-labelledby="session-activity-heading" className={sectionClass}>
+            <h3 id="session-activity-heading" className="text-sm font-medium text-slate-300">Turn-taking</h3>
+            <p className="text-slate-600 text-xs">
+              {serverDetection
+                ? 'With an open mic the server decides when the user starts and stops speaking.'
+                : 'Only used with an open mic; push-to-talk and the voice gate mark turns themselves.'}
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <SensitivityField
+                id="session-start-sensitivity"
+                label="Start of speech sensitivity"
+                value={activityDetection.startSensitivity}
+                disabled={!serverDetection}
+                onChange={(startSensitivity) => update({ ...draft, activityDetection: { ...activityDetection, startSensitivity } })}
+              />
+              <SensitivityField
+                id="session-end-sensitivity"
+                label="End of speech sensitivity"
+                value={activityDetection.endSensitivity}
+                disabled={!serverDetection}
+                onChange={(endSensitivity) => update({ ...draft, activityDetection: { ...activityDetection, endSensitivity } })}
+              />
+              <NumberField
+                id="session-silence"
+                limit={NUMBER_LIMITS.silenceDurationMs}
+                unit="ms"
+                value={activityDetection.silenceDurationMs}
+                disabled={!serverDetection}
+                onChange={(silenceDurationMs) => update({ ...draft, activityDetection: { ...activityDetection, silenceDurationMs } })}
+              />
+              <NumberField
+                id="session-prefix-padding"
+                limit={NUMBER_LIMITS.prefixPaddingMs}
+                unit="ms"
+                value={activityDetection.prefixPaddingMs}
+                disabled={!serverDetection}
+                onChange={(prefixPaddingMs) => update({ ...draft, activityDetection: { ...activityDetection, prefixPaddingMs } })}
+              />
+            </div>
+          </section>
+
+          <section aria-labelledby="session-generation-heading" className={sectionClass}>
+            <h3 id="session-generation-heading" className="text-sm font-medium text-slate-300">Generation</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <NumberField
+                id="session-temperature"
+                limit={NUMBER_LIMITS.temperature}
+                value={generation.temperature}
+                onChange={(temperature) => update({ ...draft, generation: { ...generation, temperature } })}
+              />
+              <NumberField
+                id="session-top-p"
+                limit={NUMBER_LIMITS.topP}
+                value={generation.topP}
+                onChange={(topP) => update({ ...draft, generation: { ...generation, topP } })}
+              />
+              <NumberField
+                id="session-top-k"
+                limit={NUMBER_LIMITS.topK}
+                value={generation.topK}
+                onChange={(topK) => update({ ...draft, generation: { ...generation, topK } })}
+              />
+              <NumberField
+                id="session-max-tokens"
+                limit={NUMBER_LIMITS.maxOutputTokens}
+                value={generation.maxOutputTokens}
+                onChange={(maxOutputTokens) => update({ ...draft, generation: { ...generation, maxOutputTokens } })}
+              />
+            </div>
+            <div className="space-y-2 pt-2">
+              <label className="flex items-center justify-between text-sm text-slate-300">
+                <span>Affective dialog <span className="text-slate-600 text-xs">adapts tone to the user's mood</span></span>
+                <input
+                  type="checkbox"
+                  checked={draft.affectiveDialog}
+                  disabled={!activeModel.nativeAudio}
+                  onChange={(e) => update({ ...draft, affectiveDialog: e.target.checked })}
+                  className="w-4 h-4 accent-indigo-500 disabled:opacity-40"
+                />
+              </label>
+              <label className="flex items-center justify-between text-sm text-slate-300">
+                <span>Proactive audio <span className="text-slate-600 text-xs">stays quiet when not addressed</span></span>
+                <input
+                  type="checkbox"
+                  checked={draft.proactiveAudio}
+                  disabled={!activeModel.nativeAudio}
+                  onChange={(e) => update({ ...draft, proactiveAudio: e.target.checked })}
+                  className="w-4 h-4 accent-indigo-500 disabled:opacity-40"
+                />
+              </label>
+              {!activeModel.nativeAudio && (
+                <p className="text-slate-600 text-xs">Only native audio models support these.</p>
+              )}
+            </div>
+          </section>
+
+          <section aria-labelledby="session-compression-heading" className={sectionClass}>
+            <label className="flex items-center justify-between">
+              <span id="session-compression-heading" className="text-sm font-medium text-slate-300">Context-window compression</span>
+              <input
+                type="checkbox"
+                checked={contextCompression.enabled}
+                onChange={(e) => update({ ...draft, contextCompression: { ...contextCompression, enabled: e.target.checked } })}
+                className="w-4 h-4 accent-indigo-500"
+              />
+            </label>
+            <p className="text-slate-600 text-xs">
+              Drops the oldest turns once the context grows, so long conversations are not cut off.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <NumberField
+                id="session-trigger-tokens"
+                limit={NUMBER_LIMITS.triggerTokens}
+                unit="tokens"
+                value={contextCompression.triggerTokens}
+                disabled={!contextCompression.enabled}
+                onChange={(triggerTokens) => update({ ...draft, contextCompression: { ...contextCompression, triggerTokens } })}
+              />
+              <NumberField
+                id="session-target-tokens"
+                limit={NUMBER_LIMITS.targetTokens}
+                unit="tokens"
+                value={contextCompression.targetTokens}
+                disabled={!contextCompression.enabled}
+                onChange={(targetTokens) => update({ ...draft, contextCompression: { ...contextCompression, targetTokens } })}
+              />
+            </div>
+          </section>
+
+          {errors.map(error => <p key={error} role="alert" className="text-red-400 text-xs">{error}</p>)}
+          {isConnected && (
+            <p className="text-amber-400/80 text-xs">Changes will take effect after you reconnect.</p>
+          )}
+        </div>
+
+        <div className="p-6 bg-slate-900/50 border-t border-slate-800 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center space-x-2 text-[10px] uppercase tracking-widest">
+            <button onClick={() => fileInputRef.current?.click()} className="text-slate-500 hover:text-white transition-colors">Import</button>
+            <span className="text-slate-700">/</span>
+            <button onClick={handleExport} className="text-slate-500 hover:text-white transition-colors">Export</button>
+            <span className="text-slate-700">/</span>
+            <button onClick={copyLink} className="text-slate-500 hover:text-white transition-colors">Copy link</button>
+            <span className="text-slate-700">/</span>
+            <button onClick={() => replace(DEFAULT_SESSION_SETTINGS)} className="text-slate-500 hover:text-white transition-colors">Reset</button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+          {notice && (
+            <p role="status" className={`text-xs flex-1 ${notice.error ? 'text-red-400' : 'text-slate-500'}`}>{notice.text}</p>
+          )}
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-full font-medium hover:bg-indigo-500 transition-colors shadow-lg shadow-indigo-500/20"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionSettingsPanel;
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+
+interface TextComposerProps {
+  onSend: (text: string) => void;
+  // False while there is no open session to send into
+  canSend: boolean;
+}
+
+const TextComposer: React.FC<TextComposerProps> = ({ onSend, canSend }) => {
+  const [draft, setDraft] = useState('');
+  const text = draft.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text || !canSend) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 border-t border-slate-800 flex items-center space-x-2">
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder={canSend ? 'Type a message…' : 'Start a conversation to type'}
+        disabled={!canSend}
+        aria-label="Message"
+        className="flex-1 bg-slate-950 border border-slate-800 rounded-full px-4 py-2 text-slate-300 text-sm focus:outline-none focus:border-indigo-500 transition-colors disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={!canSend || !text}
+        className="p-2 rounded-full bg-indigo-600 text-white hover:bg-indigo-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        title="Send"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m22 2-7 20-4-9-9-4Z"/><path d="M22 2 11 13"/></svg>
+      </button>
+    </form>
+  );
+};
+
+export default TextComposer;
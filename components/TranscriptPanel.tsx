@@ -0,0 +1,111 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptionEntry } from '../types';
+import { detectLanguages } from '../services/languageDetection';
+import { languageLabel } from '../services/languages';
+import TextComposer from './TextComposer';
+
+interface TranscriptPanelProps {
+  entries: TranscriptionEntry[];
+  isOpen: boolean;
+  onClose: () => void;
+  onClear: () => void;
+  onSendText: (text: string) => void;
+  canSendText: boolean;
+  // Languages Vox should be replying in; replies in any other are flagged. Null when unrestricted.
+  expectedLanguages: string[] | null;
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({
+  entries,
+  isOpen,
+  onClose,
+  onClear,
+  onSendText,
+  canSendText,
+  expectedLanguages,
+}) => {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+
+  // Keep the latest turn in view as partial transcripts stream in
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [entries, isOpen]);
+
+  return (
+    <aside
+      className={`fixed top-0 left-0 z-30 h-full w-full max-w-sm bg-slate-900/95 backdrop-blur border-r border-slate-800 flex flex-col transition-transform duration-300 ${
+        isOpen ? 'translate-x-0' : '-translate-x-full'
+      }`}
+      aria-hidden={!isOpen}
+    >
+      <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+        <div>
+          <h2 className="text-lg font-medium text-white">Conversation</h2>
+          <p className="text-slate-500 text-sm">Speak or type; Vox hears both</p>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onClear}
+            disabled={entries.length === 0}
+            className="px-3 py-1 rounded-lg text-xs uppercase tracking-widest text-slate-500 hover:text-white hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Clear
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+            title="Close Transcript"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 space-y-4">
+        {entries.length === 0 ? (
+          <p className="text-slate-600 text-sm text-center mt-12">Nothing has been said yet.</p>
+        ) : (
+          entries.map(entry => {
+            const languages = detectLanguages(entry.text);
+            const offLanguage = entry.role === 'model' && !!expectedLanguages && languages.length > 0
+              && languages.some(language => !expectedLanguages.includes(language));
+            return (
+              <div key={entry.id} className={`flex flex-col ${entry.role === 'user' ? 'items-end' : 'items-start'}`}>
+                <span className="text-[10px] uppercase tracking-widest text-slate-600 mb-1">
+                  {entry.role === 'user' ? (entry.typed ? 'You · typed' : 'You') : 'Vox'}
+                  {languages.length > 0 && (
+                    <span
+                      className={offLanguage ? 'text-amber-400/80' : undefined}
+                      title={offLanguage ? 'Outside the selected languages' : 'Detected language'}
+                    >
+                      {' · '}{languages.map(languageLabel).join(' + ')}
+                    </span>
+                  )}
+                </span>
+                <div
+                  className={`max-w-[85%] rounded-2xl px-4 py-2 text-sm leading-relaxed ${
+                    entry.role === 'user'
+                      ? 'bg-indigo-500/15 text-indigo-100 border border-indigo-500/20'
+                      : 'bg-slate-800 text-slate-200 border border-slate-700'
+                  } ${entry.complete ? '' : 'opacity-70'}`}
+                >
+                  {entry.text}
+                  {entry.interrupted && <span className="text-slate-500"> —</span>}
+                </div>
+                {entry.interrupted && (
+                  <span className="mt-1 text-[10px] uppercase tracking-widest text-amber-400/80">Interrupted</span>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <TextComposer onSend={onSendText} canSend={canSendText} />
+    </aside>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,97 @@
+import React, { useEffect, useRef } from 'react';
+import { FRAME_RATE_OPTIONS, RESOLUTION_OPTIONS, VideoSettings, VideoSource } from '../services/videoInput';
+
+interface VideoPreviewProps {
+  stream: MediaStream;
+  source: VideoSource;
+  isPaused: boolean;
+  settings: VideoSettings;
+  onSettingsChange: (settings: VideoSettings) => void;
+  onTogglePause: () => void;
+  onStop: () => void;
+}
+
+const selectClass = 'bg-slate-950 border border-slate-800 rounded-full px-2 py-0.5 text-slate-400 text-[10px] focus:outline-none focus:border-indigo-500';
+
+const VideoPreview: React.FC<VideoPreviewProps> = ({
+  stream,
+  source,
+  isPaused,
+  settings,
+  onSettingsChange,
+  onTogglePause,
+  onStop,
+}) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  const sourceLabel = source === 'camera' ? 'Camera' : 'Screen';
+
+  return (
+    <section
+      aria-label={`${sourceLabel} preview`}
+      className="absolute bottom-24 right-8 z-20 w-64 rounded-2xl border border-slate-800 bg-slate-900/90 backdrop-blur shadow-2xl overflow-hidden"
+    >
+      <div className="relative bg-black">
+        <video
+          ref={videoRef}
+          autoPlay
+          muted
+          playsInline
+          className={`w-full aspect-video object-contain ${source === 'camera' ? '-scale-x-100' : ''} ${isPaused ? 'opacity-30' : ''}`}
+        />
+        {/* Privacy indicator: always visible while Vox can see */}
+        <div
+          role="status"
+          className={`absolute top-2 left-2 flex items-center space-x-1.5 px-2 py-0.5 rounded-full text-[10px] uppercase tracking-widest ${
+            isPaused ? 'bg-slate-800/90 text-slate-400' : 'bg-red-500/90 text-white'
+          }`}
+        >
+          <span className={`w-1.5 h-1.5 rounded-full ${isPaused ? 'bg-slate-500' : 'bg-white animate-pulse'}`} />
+          <span>{isPaused ? 'Paused · Vox cannot see' : `${sourceLabel} · Vox can see`}</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between p-2 space-x-2">
+        <div className="flex items-center space-x-1">
+          <select
+            aria-label="Frames per second"
+            className={selectClass}
+            value={settings.frameRate}
+            onChange={(e) => onSettingsChange({ ...settings, frameRate: Number(e.target.value) })}
+          >
+            {FRAME_RATE_OPTIONS.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+          </select>
+          <select
+            aria-label="Frame size"
+            className={selectClass}
+            value={settings.maxDimension}
+            onChange={(e) => onSettingsChange({ ...settings, maxDimension: Number(e.target.value) })}
+          >
+            {RESOLUTION_OPTIONS.map(size => <option key={size} value={size}>{size}px</option>)}
+          </select>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onTogglePause}
+            aria-pressed={isPaused}
+            className="px-3 py-1 rounded-full text-[10px] uppercase tracking-widest text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+          >
+            {isPaused ? 'Resume' : 'Pause'}
+          </button>
+          <button
+            onClick={onStop}
+            className="px-3 py-1 rounded-full text-[10px] uppercase tracking-widest text-red-400 hover:bg-red-500/10 transition-colors"
+          >
+            Stop
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default VideoPreview;
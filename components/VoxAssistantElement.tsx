@@ -0,0 +1,86 @@
+import React from 'react';
+import { Root, createRoot } from 'react-dom/client';
+import { ASSISTANT_ATTRIBUTES, AssistantAttribute, parseAssistantAttributes } from '../services/assistantAttributes';
+import { VoxClient, VoxClientEvents } from '../services/voxClient';
+import VoxWidget, { VOX_WIDGET_STYLES } from './VoxWidget';
+
+// Re-dispatched on the element as `vox-<event>` CustomEvents with the value in `detail`
+const FORWARDED_EVENTS: (keyof VoxClientEvents)[] = ['status', 'speaking', 'transcript', 'muted', 'error'];
+
+/**
+ * <vox-assistant>: the Vox widget as a custom element, usable from any page or
+ * framework. Attributes configure it (see ASSISTANT_ATTRIBUTES); `client`
+ * exposes the underlying VoxClient for anything they do not cover.
+ */
+export class VoxAssistantElement extends HTMLElement {
+  static get observedAttributes() {
+    return [...ASSISTANT_ATTRIBUTES];
+  }
+
+  readonly client = new VoxClient();
+  private root: Root | null = null;
+  private unsubscribe: (() => void)[] = [];
+
+  connectedCallback() {
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+    shadow.replaceChildren();
+    const style = document.createElement('style');
+    style.textContent = VOX_WIDGET_STYLES;
+    const container = document.createElement('div');
+    shadow.append(style, container);
+    this.root = createRoot(container);
+
+    this.unsubscribe = FORWARDED_EVENTS.map(event => this.client.on(event, (detail) => {
+      this.dispatchEvent(new CustomEvent(`vox-${event}`, { detail, bubbles: true, composed: true }));
+    }));
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.unsubscribe.forEach(off => off());
+    this.unsubscribe = [];
+    this.client.disconnect();
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    if (this.root) this.render();
+  }
+
+  connect() {
+    return this.client.connect();
+  }
+
+  disconnect() {
+    this.client.disconnect();
+  }
+
+  private render() {
+    const config = parseAssistantAttributes(name => this.getAttribute(name as AssistantAttribute));
+    this.client.configure(config.options);
+    this.root?.render(
+      <VoxWidget
+        client={this.client}
+        name={config.persona.name}
+        theme={config.theme}
+        layout={config.layout}
+        inputMode={config.options.inputMode ?? 'open'}
+      />,
+    );
+  }
+}
+
+/** Registers the element under `tagName`; safe to call more than once. */
+export function defineVoxAssistant(tagName = 'vox-assistant') {
+  if (!customElements.get(tagName)) {
+    // A fresh subclass per tag, since one constructor cannot be registered twice
+    customElements.define(tagName, class extends VoxAssistantElement {});
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'vox-assistant': VoxAssistantElement;
+  }
+}
@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConnectionStatus, InputMode } from '../types';
+import { AssistantLayout, AssistantTheme } from '../services/assistantAttributes';
+import { VoxClient } from '../services/voxClient';
+import { useVoxClientState } from './useVoxClient';
+
+interface VoxWidgetProps {
+  client: VoxClient;
+  name: string;
+  theme: AssistantTheme;
+  layout: AssistantLayout;
+  inputMode: InputMode;
+}
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  disconnected: 'Ready',
+  connecting: 'Connecting…',
+  connected: 'Listening',
+  reconnecting: 'Reconnecting…',
+  error: 'Stopped',
+};
+
+// Host pages rarely load Tailwind, and it cannot reach into the shadow root anyway,
+// so the widget carries its own styles.
+export const VOX_WIDGET_STYLES = `
+:host { all: initial; font-family: Inter, system-ui, sans-serif; }
+.vox {
+  --bg: #0f172a; --fg: #f8fafc; --muted: #94a3b8; --border: #1e293b; --bubble: #1e293b;
+  --accent: #6366f1; --user: rgba(99, 102, 241, 0.15); --danger: #f87171;
+  color: var(--fg); font-size: 14px; line-height: 1.4; box-sizing: border-box;
+}
+.vox[data-theme="light"] {
+  --bg: #ffffff; --fg: #0f172a; --muted: #64748b; --border: #e2e8f0; --bubble: #f1f5f9; --user: rgba(99, 102, 241, 0.12);
+}
+@media (prefers-color-scheme: light) {
+  .vox[data-theme="auto"] {
+    --bg: #ffffff; --fg: #0f172a; --muted: #64748b; --border: #e2e8f0; --bubble: #f1f5f9; --user: rgba(99, 102, 241, 0.12);
+  }
+}
+.vox *, .vox *::before, .vox *::after { box-sizing: inherit; }
+.panel { display: flex; flex-direction: column; width: 100%; height: 100%; min-height: 320px; background: var(--bg); border: 1px solid var(--border); border-radius: 16px; overflow: hidden; }
+.header { display: flex; align-items: center; gap: 8px; padding: 12px 16px; border-bottom: 1px solid var(--border); }
+.name { font-weight: 500; flex: 1; }
+.status { color: var(--muted); font-size: 11px; text-transform: uppercase; letter-spacing: 0.1em; }
+.dot { width: 8px; height: 8px; border-radius: 50%; background: var(--muted); transform: scale(calc(1 + var(--vox-level, 0) * 0.8)); transition: transform 80ms linear; }
+.dot[data-status="connected"] { background: #10b981; }
+.dot[data-status="connecting"], .dot[data-status="reconnecting"] { background: #f59e0b; }
+.dot[data-status="error"] { background: var(--danger); }
+.transcript { flex: 1; overflow-y: auto; padding: 12px 16px; display: flex; flex-direction: column; gap: 8px; }
+.empty { color: var(--muted); text-align: center; margin: auto; font-size: 13px; }
+.turn { max-width: 85%; padding: 6px 12px; border-radius: 14px; background: var(--bubble); }
+.turn[data-role="user"] { align-self: flex-end; background: var(--user); }
+.turn[data-complete="false"] { opacity: 0.7; }
+.composer { display: flex; gap: 8px; padding: 0 16px 12px; }
+.composer input { flex: 1; min-width: 0; padding: 8px 12px; border-radius: 999px; border: 1px solid var(--border); background: transparent; color: inherit; font: inherit; }
+.controls { display: flex; gap: 8px; padding: 12px 16px; border-top: 1px solid var(--border); }
+button { font: inherit; cursor: pointer; border-radius: 999px; border: 1px solid var(--border); background: transparent; color: inherit; padding: 8px 14px; }
+button:focus-visible, input:focus-visible { outline: 2px solid var(--accent); outline-offset: 2px; }
+button:disabled { opacity: 0.5; cursor: not-allowed; }
+button.primary { background: var(--accent); border-color: var(--accent); color: #fff; flex: 1; }
+button.primary[data-active="true"] { background: transparent; color: var(--danger); border-color: var(--danger); }
+button[aria-pressed="true"] { background: var(--bubble); }
+.error { color: var(--danger); font-size: 12px; padding: 0 16px 12px; margin: 0; }
+.compact { position: fixed; right: 24px; bottom: 24px; z-index: 2147483000; display: flex; flex-direction: column; align-items: flex-end; gap: 12px; }
+.bubble { max-width: 280px; padding: 10px 14px; border-radius: 14px; background: var(--bg); border: 1px solid var(--border); box-shadow: 0 10px 30px rgba(0, 0, 0, 0.25); }
+.bubble .controls { padding: 8px 0 0; border: 0; }
+.fab { width: 56px; height: 56px; padding: 0; display: grid; place-items: center; background: var(--accent); border: 0; color: #fff; box-shadow: 0 0 0 calc(var(--vox-level, 0) * 14px) rgba(99, 102, 241, 0.35), 0 10px 30px rgba(0, 0, 0, 0.3); transition: box-shadow 80ms linear; }
+.fab[data-active="true"] { background: var(--danger); }
+.sr-only { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap; }
+`;
+
+const MicIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true"><path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" x2="12" y1="19" y2="22"/></svg>
+);
+
+const StopIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+);
+
+/** The UI rendered by <vox-assistant>: a card with the transcript, or a floating button. */
+const VoxWidget: React.FC<VoxWidgetProps> = ({ client, name, theme, layout, inputMode }) => {
+  const { status, isSpeaking, isMuted, isVoiceActive, levels, transcript, error } = useVoxClientState(client);
+  const [draft, setDraft] = useState('');
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+
+  // Keep the latest turn in view as partial transcripts stream in
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [transcript]);
+
+  const isActive = status === 'connected' || status === 'reconnecting' || status === 'connecting';
+  const statusLabel = status === 'connected' && isSpeaking ? 'Speaking' : STATUS_LABELS[status];
+  const style = { '--vox-level': levels.combined.toFixed(3) } as React.CSSProperties;
+
+  const toggleConnection = () => (isActive ? client.disconnect() : client.connect());
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    client.sendText(draft.trim());
+    setDraft('');
+  };
+
+  const controls = (
+    <div className="controls">
+      {layout === 'panel' && (
+        <button className="primary" data-active={isActive} onClick={toggleConnection}>
+          {isActive ? 'End' : `Talk to ${name}`}
+        </button>
+      )}
+      {status === 'connected' && inputMode === 'push-to-talk' && (
+        <button
+          aria-pressed={isVoiceActive}
+          disabled={isMuted}
+          onPointerDown={() => client.setPushToTalk(true)}
+          onPointerUp={() => client.setPushToTalk(false)}
+          onPointerLeave={() => client.setPushToTalk(false)}
+        >
+          Hold to talk
+        </button>
+      )}
+      {status === 'connected' && (
+        <button aria-pressed={isMuted} onClick={() => client.setMuted(!isMuted)}>
+          {isMuted ? 'Unmute' : 'Mute'}
+        </button>
+      )}
+    </div>
+  );
+
+  if (layout === 'compact') {
+    const lastReply = [...transcript].reverse().find(entry => entry.role === 'model');
+    return (
+      <div className="vox compact" data-theme={theme} style={style}>
+        {(isActive || error) && (
+          <div className="bubble" role="status">
+            <div className="status">{name} · {statusLabel}</div>
+            {lastReply && <p>{lastReply.text}</p>}
+            {error && <p className="error">{error}</p>}
+            {controls}
+          </div>
+        )}
+        <button
+          className="fab"
+          data-active={isActive}
+          onClick={toggleConnection}
+          aria-label={isActive ? `End conversation with ${name}` : `Talk to ${name}`}
+        >
+          {isActive ? <StopIcon /> : <MicIcon />}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="vox panel" data-theme={theme} style={style}>
+      <div className="header">
+        <span className="dot" data-status={status} aria-hidden="true" />
+        <span className="name">{name}</span>
+        <span className="status" role="status">{statusLabel}</span>
+      </div>
+      <div ref={scrollRef} className="transcript">
+        {transcript.length === 0 ? (
+          <p className="empty">Start a conversation, then speak or type.</p>
+        ) : (
+          transcript.map(entry => (
+            <div key={entry.id} className="turn" data-role={entry.role} data-complete={entry.complete}>
+              <span className="sr-only">{entry.role === 'user' ? 'You: ' : `${name}: `}</span>
+              {entry.text}
+            </div>
+          ))
+        )}
+      </div>
+      {status === 'connected' && (
+        <form className="composer" onSubmit={submit}>
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={`Message ${name}`}
+            aria-label={`Message ${name}`}
+          />
+          <button type="submit" disabled={!draft.trim()}>Send</button>
+        </form>
+      )}
+      {error && <p className="error" role="alert">{error}</p>}
+      {controls}
+    </div>
+  );
+};
+
+export default VoxWidget;
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ConnectionStatus, TranscriptionEntry } from '../types';
+import { AudioLevels } from '../services/audioLevels';
+import { VoxClient, VoxClientOptions } from '../services/voxClient';
+
+export interface VoxClientState {
+  status: ConnectionStatus;
+  isSpeaking: boolean;
+  isMuted: boolean;
+  isVoiceActive: boolean;
+  levels: AudioLevels;
+  transcript: TranscriptionEntry[];
+  // The latest error, cleared when the next conversation starts.
+  error: string | null;
+}
+
+const readState = (client: VoxClient): VoxClientState => ({
+  status: client.status,
+  isSpeaking: client.isSpeaking,
+  isMuted: client.isMuted,
+  isVoiceActive: false,
+  levels: client.levels,
+  transcript: client.transcript,
+  error: null,
+});
+
+/** Mirrors a client's events into React state. The caller owns the client. */
+export function useVoxClientState(client: VoxClient): VoxClientState {
+  const [state, setState] = useState(() => readState(client));
+
+  useEffect(() => {
+    setState(readState(client));
+    const update = (patch: Partial<VoxClientState>) => setState(prev => ({ ...prev, ...patch }));
+    const unsubscribe = [
+      client.on('status', status => update(status === 'connecting' ? { status, error: null } : { status })),
+      client.on('speaking', isSpeaking => update({ isSpeaking })),
+      client.on('muted', isMuted => update({ isMuted })),
+      client.on('voiceActivity', isVoiceActive => update({ isVoiceActive })),
+      client.on('levels', levels => update({ levels })),
+      client.on('transcript', transcript => update({ transcript })),
+      client.on('error', error => update({ error })),
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [client]);
+
+  return state;
+}
+
+/**
+ * Runs a Vox conversation inside a React component. Options are applied as
+ * they change and take effect from the next connection; unmounting ends the
+ * conversation.
+ */
+export function useVoxClient(options: Partial<VoxClientOptions> = {}) {
+  const [client] = useState(() => new VoxClient(options));
+  const state = useVoxClientState(client);
+  const appliedRef = useRef(options);
+
+  // Only pass on options whose identity changed, so tools are not re-registered every render
+  useEffect(() => {
+    const applied = appliedRef.current;
+    const changed = (Object.keys(options) as (keyof VoxClientOptions)[])
+      .filter(key => options[key] !== applied[key]);
+    appliedRef.current = options;
+    if (changed.length > 0) {
+      client.configure(Object.fromEntries(changed.map(key => [key, options[key]])));
+    }
+  });
+
+  useEffect(() => () => client.disconnect(), [client]);
+
+  const toggleConnection = useCallback(() => {
+    if (client.status === 'disconnected' || client.status === 'error') client.connect();
+    else client.disconnect();
+  }, [client]);
+
+  return {
+    ...state,
+    client,
+    connect: useCallback(() => client.connect(), [client]),
+    disconnect: useCallback(() => client.disconnect(), [client]),
+    toggleConnection,
+    setMuted: useCallback((muted: boolean) => client.setMuted(muted), [client]),
+    setPushToTalk: useCallback((held: boolean) => client.setPushToTalk(held), [client]),
+    sendText: useCallback((text: string) => client.sendText(text), [client]),
+    interrupt: useCallback(() => client.interrupt(), [client]),
+    clearTranscript: useCallback(() => client.clearTranscript(), [client]),
+  };
+}
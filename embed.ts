@@ -0,0 +1,5 @@
+// Self-contained <vox-assistant> bundle for pages without a build step:
+// <script type="module" src="vox-assistant.js"></script>
+import { defineVoxAssistant } from './components/VoxAssistantElement';
+
+defineVoxAssistant();
@@ -0,0 +1,12 @@
+// Public surface of the Vox library build (`npm run build:lib`). React, React DOM and
+// @google/genai stay external, so the host app's copies are used.
+export { VoxClient, DEFAULT_VOX_CLIENT_OPTIONS } from './services/voxClient';
+export type { VoxClientEvents, VoxClientListener, VoxClientOptions } from './services/voxClient';
+export { useVoxClient, useVoxClientState } from './components/useVoxClient';
+export type { VoxClientState } from './components/useVoxClient';
+export { VoxAssistantElement, defineVoxAssistant } from './components/VoxAssistantElement';
+export { MockLiveTransport, demoScript } from './services/mockLiveTransport';
+export { DEFAULT_PERSONA, PREBUILT_VOICES } from './services/personaStore';
+export { DEFAULT_SESSION_SETTINGS } from './services/sessionSettings';
+export type { ToolDefinition, ToolHandler } from './services/toolRegistry';
+export * from './types';
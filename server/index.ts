@@ -0,0 +1,44 @@
+import { GoogleGenAI } from '@google/genai';
+import { Modality } from '../types';
+import { LIVE_MODELS } from '../services/liveModels';
+import { RateLimiter } from './rateLimiter';
+import { createGenAISummarizer } from './summarizer';
+import { createGenAITokenIssuer, createTokenServer, LIVE_TOKEN_PATH } from './tokenServer';
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const DEFAULT_SUMMARY_MODEL = 'gemini-2.5-flash';
+
+const list = (value: string | undefined) =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Fine when the environment is provided some other way
+}
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+
+const port = Number(process.env.VOX_SERVER_PORT) || 3001;
+const allowedModels = list(process.env.VOX_ALLOWED_MODELS);
+
+const server = createTokenServer({
+  // Ephemeral tokens are only available on the v1alpha API
+  issuer: createGenAITokenIssuer(new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } })),
+  summarizer: createGenAISummarizer(new GoogleGenAI({ apiKey }), process.env.VOX_SUMMARY_MODEL || DEFAULT_SUMMARY_MODEL),
+  policy: {
+    models: allowedModels.length > 0 ? allowedModels : LIVE_MODELS.map(model => model.name),
+    responseModalities: [Modality.AUDIO, Modality.TEXT],
+    allowedOrigins: list(process.env.VOX_ALLOWED_ORIGINS),
+  },
+  rateLimiter: new RateLimiter(Number(process.env.VOX_TOKENS_PER_MINUTE) || 10, RATE_LIMIT_WINDOW_MS),
+  trustProxy: process.env.VOX_TRUST_PROXY === 'true',
+});
+
+server.listen(port, () => {
+  console.log(`Vox token server listening on http://localhost:${port}${LIVE_TOKEN_PATH}`);
+});
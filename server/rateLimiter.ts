@@ -0,0 +1,32 @@
+// Above this many tracked clients, idle entries are swept on the next request
+const PRUNE_THRESHOLD = 10000;
+
+/**
+ * Sliding-window limiter keyed by client. Each key may make `limit` requests
+ * in any `windowMs` span; state is in memory, so limits reset on restart.
+ */
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  /** Records a request. Returns 0 if it is allowed, otherwise the milliseconds until it would be. */
+  take(key: string, now = Date.now()): number {
+    if (this.hits.size > PRUNE_THRESHOLD) this.prune(now);
+
+    const recent = (this.hits.get(key) ?? []).filter(time => now - time < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return recent[0] + this.windowMs - now;
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+
+  private prune(now: number) {
+    for (const [key, times] of this.hits) {
+      if (times.every(time => now - time >= this.windowMs)) this.hits.delete(key);
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { GoogleGenAI } from '@google/genai';
+import { SummaryRequest } from '../types';
+
+// Only the end of very long sessions is summarised
+const MAX_TRANSCRIPT_CHARS = 20000;
+
+const SUMMARY_PROMPT = `Summarise this conversation between a user and Vox, a voice assistant, as notes for Vox's next conversation with the same user.
+Write at most five short bullet points starting with "- ".
+Keep only lasting facts: who the user is, their preferences, ongoing tasks, names and decisions.
+Skip greetings, small talk and anything Vox said that the user did not confirm.`;
+
+export interface Summarizer {
+  summarize(request: SummaryRequest): Promise<string>;
+}
+
+export function createGenAISummarizer(ai: GoogleGenAI, model: string): Summarizer {
+  return {
+    async summarize({ turns }) {
+      let transcript = turns.map(turn => `${turn.role === 'user' ? 'User' : 'Vox'}: ${turn.text}`).join('\n');
+      if (transcript.length > MAX_TRANSCRIPT_CHARS) transcript = transcript.slice(-MAX_TRANSCRIPT_CHARS);
+
+      const response = await ai.models.generateContent({
+        model,
+        contents: transcript,
+        config: { systemInstruction: SUMMARY_PROMPT, temperature: 0.2 },
+      });
+      const summary = response.text?.trim();
+      if (!summary) throw new Error('The model returned an empty summary.');
+      return summary;
+    },
+  };
+}
@@ -0,0 +1,165 @@
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LiveTokenRequest, Modality } from '../types';
+import { RateLimiter } from './rateLimiter';
+import { Summarizer } from './summarizer';
+import { createTokenServer, LIVE_TOKEN_PATH, SUMMARY_PATH, TokenIssuer, TokenPolicy } from './tokenServer';
+
+const policy: TokenPolicy = {
+  models: ['allowed-model'],
+  responseModalities: [Modality.AUDIO],
+  allowedOrigins: ['http://localhost:3000'],
+};
+
+const validRequest: LiveTokenRequest = { model: 'allowed-model', responseModalities: [Modality.AUDIO] };
+
+let server: Server | null = null;
+
+async function startServer(issuer: TokenIssuer, limit = 5, summarizer?: Summarizer) {
+  server = createTokenServer({ issuer, policy, rateLimiter: new RateLimiter(limit, 60000), summarizer });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}${LIVE_TOKEN_PATH}`;
+}
+
+const post = (url: string, body: unknown, headers: Record<string, string> = {}) =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) });
+
+const stubIssuer = (): TokenIssuer => ({
+  issue: vi.fn(async () => ({ token: 'auth_tokens/test', expireTime: '2030-01-01T00:00:00.000Z' })),
+});
+
+afterEach(async () => {
+  if (server) await new Promise(resolve => server!.close(resolve));
+  server = null;
+});
+
+describe('token server', () => {
+  it('issues a token for an allowed model and modality', async () => {
+    const issuer = stubIssuer();
+    const url = await startServer(issuer);
+
+    const response = await post(url, validRequest);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(await response.json()).toEqual({ token: 'auth_tokens/test', expireTime: '2030-01-01T00:00:00.000Z' });
+    expect(issuer.issue).toHaveBeenCalledWith(validRequest);
+  });
+
+  it.each([
+    ['an unlisted model', { ...validRequest, model: 'other-model' }],
+    ['an unlisted modality', { ...validRequest, responseModalities: [Modality.TEXT] }],
+    ['several modalities', { ...validRequest, responseModalities: [Modality.AUDIO, Modality.AUDIO] }],
+    ['a missing model', { responseModalities: [Modality.AUDIO] }],
+  ])('rejects %s', async (_label, body) => {
+    const issuer = stubIssuer();
+    const url = await startServer(issuer);
+
+    const response = await post(url, body);
+
+    expect(response.status).toBe(403);
+    expect(issuer.issue).not.toHaveBeenCalled();
+  });
+
+  it('rejects origins outside the allow-list', async () => {
+    const url = await startServer(stubIssuer());
+    expect((await post(url, validRequest, { Origin: 'https://evil.example' })).status).toBe(403);
+    expect((await post(url, validRequest, { Origin: 'http://localhost:3000' })).status).toBe(200);
+  });
+
+  it('accepts same-origin requests without listing the app itself', async () => {
+    const url = await startServer(stubIssuer());
+    const { origin } = new URL(url);
+    expect((await post(url, validRequest, { Origin: origin })).status).toBe(200);
+    expect((await post(url, validRequest, { Origin: 'http://127.0.0.1:1' })).status).toBe(403);
+  });
+
+  it('answers cross-origin requests only from listed origins', async () => {
+    const url = await startServer(stubIssuer());
+
+    const preflight = await fetch(url, { method: 'OPTIONS', headers: { Origin: 'http://localhost:3000' } });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get('access-control-allow-origin')).toBe('http://localhost:3000');
+    expect(preflight.headers.get('access-control-allow-headers')).toBe('Content-Type');
+
+    const allowed = await post(url, validRequest, { Origin: 'http://localhost:3000' });
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('http://localhost:3000');
+    const refused = await fetch(url, { method: 'OPTIONS', headers: { Origin: 'https://evil.example' } });
+    expect(refused.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('rate limits each client', async () => {
+    const url = await startServer(stubIssuer(), 2);
+
+    expect((await post(url, validRequest)).status).toBe(200);
+    expect((await post(url, validRequest)).status).toBe(200);
+    const limited = await post(url, validRequest);
+
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+  });
+
+  it('hides issuer failures behind a generic error', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const url = await startServer({ issue: async () => { throw new Error('API key invalid: AIza...'); } });
+
+    const response = await post(url, validRequest);
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Could not issue a session token.' });
+    consoleError.mockRestore();
+  });
+
+  it('only serves POST on the token path', async () => {
+    const url = await startServer(stubIssuer());
+    expect((await fetch(url)).status).toBe(405);
+    expect((await post(url.replace(LIVE_TOKEN_PATH, '/api/other'), validRequest)).status).toBe(404);
+  });
+
+  it('rejects bodies that are not JSON', async () => {
+    const url = await startServer(stubIssuer());
+    const response = await fetch(url, { method: 'POST', body: 'not json' });
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('summary endpoint', () => {
+  const turns = [{ role: 'user', text: 'I live in Lisbon.' }, { role: 'model', text: 'Noted!' }];
+
+  it('summarises valid turns', async () => {
+    const summarizer: Summarizer = { summarize: vi.fn(async () => '- Lives in Lisbon') };
+    const url = (await startServer(stubIssuer(), 5, summarizer)).replace(LIVE_TOKEN_PATH, SUMMARY_PATH);
+
+    const response = await post(url, { turns });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ summary: '- Lives in Lisbon' });
+    expect(summarizer.summarize).toHaveBeenCalledWith({ turns });
+  });
+
+  it('rejects malformed turns', async () => {
+    const summarizer: Summarizer = { summarize: vi.fn(async () => '') };
+    const url = (await startServer(stubIssuer(), 5, summarizer)).replace(LIVE_TOKEN_PATH, SUMMARY_PATH);
+
+    expect((await post(url, { turns: [] })).status).toBe(400);
+    expect((await post(url, { turns: [{ role: 'system', text: 'hi' }] })).status).toBe(400);
+    expect(summarizer.summarize).not.toHaveBeenCalled();
+  });
+
+  it('is not served without a summarizer', async () => {
+    const url = (await startServer(stubIssuer())).replace(LIVE_TOKEN_PATH, SUMMARY_PATH);
+    expect((await post(url, { turns })).status).toBe(404);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('frees a slot once the window slides past the oldest request', () => {
+    const limiter = new RateLimiter(2, 1000);
+    expect(limiter.take('a', 0)).toBe(0);
+    expect(limiter.take('a', 400)).toBe(0);
+    expect(limiter.take('a', 500)).toBe(500);
+    expect(limiter.take('b', 500)).toBe(0);
+    expect(limiter.take('a', 1000)).toBe(0);
+  });
+});
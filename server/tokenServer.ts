@@ -0,0 +1,209 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { LiveTokenRequest, LiveTokenResponse, MemoryTurn, Modality, SummaryRequest } from '../types';
+import { RateLimiter } from './rateLimiter';
+import { Summarizer } from './summarizer';
+
+export const LIVE_TOKEN_PATH = '/api/live-token';
+export const SUMMARY_PATH = '/api/summarize';
+
+const MAX_TOKEN_BODY_BYTES = 4096;
+const MAX_SUMMARY_BODY_BYTES = 256 * 1024;
+// A token must be used to open a session within this window
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+// Sessions opened with a token are closed after this long
+const SESSION_LIFETIME_MS = 30 * 60 * 1000;
+
+export interface TokenPolicy {
+  models: string[];
+  responseModalities: Modality[];
+  // Browser origins allowed to request tokens; empty allows any.
+  allowedOrigins: string[];
+}
+
+/** Mints the ephemeral tokens. Tests swap in a stand-in so no API key is needed. */
+export interface TokenIssuer {
+  issue(request: LiveTokenRequest): Promise<LiveTokenResponse>;
+}
+
+export interface TokenServerOptions {
+  issuer: TokenIssuer;
+  policy: TokenPolicy;
+  rateLimiter: RateLimiter;
+  // Summarises sessions for conversation memory; without one the client summarises locally.
+  summarizer?: Summarizer;
+  // Key rate limits on X-Forwarded-For and match the app's origin against X-Forwarded-Host;
+  // only enable behind a proxy that sets them.
+  trustProxy?: boolean;
+}
+
+export class TokenRequestError extends Error {
+  constructor(readonly status: number, message: string, readonly headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'TokenRequestError';
+  }
+}
+
+/**
+ * Issues single-use tokens locked to the requested model and response
+ * modality, so a leaked token cannot be used to open a different session.
+ */
+export function createGenAITokenIssuer(ai: GoogleGenAI): TokenIssuer {
+  return {
+    async issue({ model, responseModalities }) {
+      const now = Date.now();
+      const expireTime = new Date(now + SESSION_LIFETIME_MS).toISOString();
+      const token = await ai.authTokens.create({
+        config: {
+          uses: 1,
+          expireTime,
+          newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+          liveConnectConstraints: { model, config: { responseModalities } },
+        },
+      });
+      if (!token.name) throw new Error('The token service returned no token.');
+      return { token: token.name, expireTime };
+    },
+  };
+}
+
+export function validateTokenRequest(body: unknown, policy: TokenPolicy): LiveTokenRequest {
+  const { model, responseModalities } = (body ?? {}) as Partial<LiveTokenRequest>;
+  if (typeof model !== 'string' || !policy.models.includes(model)) {
+    throw new TokenRequestError(403, `Model "${String(model)}" is not allowed.`);
+  }
+  // The Live API accepts exactly one response modality per session
+  if (!Array.isArray(responseModalities) || responseModalities.length !== 1
+    || !policy.responseModalities.includes(responseModalities[0])) {
+    throw new TokenRequestError(403, 'The requested response modality is not allowed.');
+  }
+  return { model, responseModalities };
+}
+
+const isTurn = (value: any): value is MemoryTurn =>
+  value && (value.role === 'user' || value.role === 'model') && typeof value.text === 'string';
+
+export function validateSummaryRequest(body: unknown): SummaryRequest {
+  const { turns } = (body ?? {}) as Partial<SummaryRequest>;
+  if (!Array.isArray(turns) || turns.length === 0 || !turns.every(isTurn)) {
+    throw new TokenRequestError(400, 'Expected a non-empty list of turns.');
+  }
+  return { turns: turns.map(({ role, text }) => ({ role, text })) };
+}
+
+function clientKey(req: IncomingMessage, trustProxy: boolean) {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+async function readJson(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new TokenRequestError(413, 'Request body is too large.');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    throw new TokenRequestError(400, 'Request body must be JSON.');
+  }
+}
+
+// Browsers send Origin on same-origin POSTs too; the app's own requests must not need listing
+function isSameOrigin(req: IncomingMessage, origin: string, trustProxy: boolean) {
+  const forwardedHost = req.headers['x-forwarded-host'];
+  const host = trustProxy && typeof forwardedHost === 'string' && forwardedHost
+    ? forwardedHost.split(',')[0].trim()
+    : req.headers.host;
+  try {
+    return !!host && new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// Cross-origin pages such as embedded widgets may only call in when their origin is listed explicitly
+function corsHeaders(req: IncomingMessage, policy: TokenPolicy): Record<string, string> {
+  const origin = req.headers.origin;
+  if (!origin || !policy.allowedOrigins.includes(origin)) return {};
+  return { 'Access-Control-Allow-Origin': origin, Vary: 'Origin' };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+export function createTokenServer({ issuer, policy, rateLimiter, summarizer, trustProxy = false }: TokenServerOptions): Server {
+  const handle = async (req: IncomingMessage, res: ServerResponse, cors: Record<string, string>) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (path !== LIVE_TOKEN_PATH && (path !== SUMMARY_PATH || !summarizer)) {
+      throw new TokenRequestError(404, 'Not found.');
+    }
+    if (req.method === 'OPTIONS' && cors['Access-Control-Allow-Origin']) {
+      res.writeHead(204, {
+        ...cors,
+        'Access-Control-Allow-Methods': 'POST',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Max-Age': '600',
+      });
+      res.end();
+      return;
+    }
+    if (req.method !== 'POST') throw new TokenRequestError(405, 'Use POST.', { Allow: 'POST' });
+
+    const origin = req.headers.origin;
+    if (origin && policy.allowedOrigins.length > 0 && !policy.allowedOrigins.includes(origin)
+      && !isSameOrigin(req, origin, trustProxy)) {
+      throw new TokenRequestError(403, 'Origin is not allowed.');
+    }
+
+    const retryAfterMs = rateLimiter.take(clientKey(req, trustProxy));
+    if (retryAfterMs > 0) {
+      const retryAfter = Math.ceil(retryAfterMs / 1000);
+      throw new TokenRequestError(429, `Too many requests. Try again in ${retryAfter}s.`, {
+        'Retry-After': String(retryAfter),
+      });
+    }
+
+    if (path === SUMMARY_PATH) {
+      const request = validateSummaryRequest(await readJson(req, MAX_SUMMARY_BODY_BYTES));
+      let summary: string;
+      try {
+        summary = await summarizer!.summarize(request);
+      } catch (err) {
+        console.error('Failed to summarise a session:', err);
+        throw new TokenRequestError(502, 'Could not summarise the session.');
+      }
+      sendJson(res, 200, { summary }, cors);
+      return;
+    }
+
+    const request = validateTokenRequest(await readJson(req, MAX_TOKEN_BODY_BYTES), policy);
+    let token: LiveTokenResponse;
+    try {
+      token = await issuer.issue(request);
+    } catch (err) {
+      console.error('Failed to issue a Live token:', err);
+      throw new TokenRequestError(502, 'Could not issue a session token.');
+    }
+    sendJson(res, 200, token, cors);
+  };
+
+  return createServer((req, res) => {
+    const cors = corsHeaders(req, policy);
+    handle(req, res, cors).catch(err => {
+      if (err instanceof TokenRequestError) {
+        sendJson(res, err.status, { error: err.message }, { ...cors, ...err.headers });
+        return;
+      }
+      console.error('Token server error:', err);
+      sendJson(res, 500, { error: 'Internal server error.' }, cors);
+    });
+  });
+}
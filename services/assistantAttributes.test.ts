@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Modality } from '../types';
+import { LIVE_TOKEN_ENDPOINT } from './liveAuth';
+import { DEFAULT_PERSONA } from './personaStore';
+import { AssistantAttribute, parseAssistantAttributes, parsePersonaAttribute } from './assistantAttributes';
+
+const attributes = (values: Partial<Record<AssistantAttribute, string>>) =>
+  (name: AssistantAttribute) => values[name] ?? null;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('<vox-assistant> attributes', () => {
+  it('defaults to a dark panel with the default persona', () => {
+    const config = parseAssistantAttributes(attributes({}));
+    expect(config.theme).toBe('dark');
+    expect(config.layout).toBe('panel');
+    expect(config.persona).toBe(DEFAULT_PERSONA);
+    expect(config.options.responseModality).toBe(Modality.AUDIO);
+    expect(config.options.inputMode).toBe('open');
+    expect(config.options.tokenEndpoint).toBe(LIVE_TOKEN_ENDPOINT);
+  });
+
+  it('maps attributes onto client options', () => {
+    const config = parseAssistantAttributes(attributes({
+      voice: 'Puck',
+      response: 'text',
+      'input-mode': 'push-to-talk',
+      theme: 'light',
+      layout: 'compact',
+      'token-endpoint': 'https://vox.example/api/live-token',
+    }));
+    expect(config.options.session?.voice).toBe('Puck');
+    expect(config.options.responseModality).toBe(Modality.TEXT);
+    expect(config.options.inputMode).toBe('push-to-talk');
+    expect(config.options.tokenEndpoint).toBe('https://vox.example/api/live-token');
+    expect(config).toMatchObject({ theme: 'light', layout: 'compact' });
+  });
+
+  it('falls back to defaults for values it does not know', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const config = parseAssistantAttributes(attributes({ theme: 'neon', voice: 'Nobody', model: 'Not A Model' }));
+    expect(config.theme).toBe('dark');
+    expect(config.options.session).toMatchObject({ voice: '', model: '' });
+    expect(warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('reads a persona as JSON or as plain instructions', () => {
+    const persona = parsePersonaAttribute(JSON.stringify({ name: 'Helpdesk', instructions: 'Answer IT questions.', voice: 'Orus' }));
+    expect(persona).toMatchObject({ name: 'Helpdesk', instructions: 'Answer IT questions.', voice: 'Orus' });
+    expect(parsePersonaAttribute('Speak like a pirate.')).toMatchObject({ name: DEFAULT_PERSONA.name, instructions: 'Speak like a pirate.' });
+
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parsePersonaAttribute('{"instructions": "no name"}')).toBe(DEFAULT_PERSONA);
+  });
+});
@@ -0,0 +1,81 @@
+import { InputMode, Modality, Persona } from '../types';
+import { LIVE_TOKEN_ENDPOINT } from './liveAuth';
+import { DEFAULT_PERSONA, PREBUILT_VOICES, parsePersona } from './personaStore';
+import { DEFAULT_SESSION_SETTINGS, isValidModelName } from './sessionSettings';
+import { INPUT_MODES } from './voiceActivity';
+import { VoxClientOptions } from './voxClient';
+
+export type AssistantTheme = 'dark' | 'light' | 'auto';
+// panel: a card with the transcript; compact: a floating button that expands while talking
+export type AssistantLayout = 'panel' | 'compact';
+
+export const ASSISTANT_ATTRIBUTES = [
+  'persona',
+  'voice',
+  'model',
+  'response',
+  'input-mode',
+  'theme',
+  'layout',
+  'token-endpoint',
+] as const;
+
+export type AssistantAttribute = typeof ASSISTANT_ATTRIBUTES[number];
+
+export interface AssistantConfig {
+  options: Partial<VoxClientOptions>;
+  persona: Persona;
+  theme: AssistantTheme;
+  layout: AssistantLayout;
+}
+
+const THEMES: AssistantTheme[] = ['dark', 'light', 'auto'];
+const LAYOUTS: AssistantLayout[] = ['panel', 'compact'];
+
+function pick<T extends string>(name: string, value: string | null, allowed: readonly T[], fallback: T): T {
+  if (value === null || value === '') return fallback;
+  if ((allowed as readonly string[]).includes(value)) return value as T;
+  console.warn(`<vox-assistant> ignored ${name}="${value}"; expected one of ${allowed.join(', ')}.`);
+  return fallback;
+}
+
+/**
+ * `persona` is either a persona as exported from the app (JSON) or plain
+ * instructions for an otherwise default persona.
+ */
+export function parsePersonaAttribute(value: string | null): Persona {
+  const text = value?.trim();
+  if (!text) return DEFAULT_PERSONA;
+  if (!text.startsWith('{')) return { ...DEFAULT_PERSONA, instructions: text };
+  try {
+    return parsePersona(JSON.parse(text));
+  } catch (err: any) {
+    console.warn(`<vox-assistant> ignored its persona: ${err.message}`);
+    return DEFAULT_PERSONA;
+  }
+}
+
+/** Turns the element's attributes into client options. Invalid values are reported and replaced by defaults. */
+export function parseAssistantAttributes(get: (name: AssistantAttribute) => string | null): AssistantConfig {
+  const persona = parsePersonaAttribute(get('persona'));
+  const voice = pick('voice', get('voice'), PREBUILT_VOICES, '');
+  const modelAttribute = get('model')?.trim() ?? '';
+  const model = isValidModelName(modelAttribute) ? modelAttribute : '';
+  if (modelAttribute && !model) console.warn(`<vox-assistant> ignored model="${modelAttribute}".`);
+  const response = pick('response', get('response'), ['audio', 'text'], 'audio');
+  const inputMode = pick<InputMode>('input-mode', get('input-mode'), INPUT_MODES.map(mode => mode.value), 'open');
+  const tokenEndpoint = get('token-endpoint')?.trim();
+
+  return {
+    options: {
+      persona,
+      responseModality: response === 'text' ? Modality.TEXT : Modality.AUDIO,
+      inputMode,
+      session: { ...DEFAULT_SESSION_SETTINGS, model, voice },
+      tokenEndpoint: tokenEndpoint || LIVE_TOKEN_ENDPOINT,
+    },
+    persona,
+    theme: pick('theme', get('theme'), THEMES, 'dark'),
+    layout: pick('layout', get('layout'), LAYOUTS, 'panel'),
+  };
+}
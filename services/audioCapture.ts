@@ -0,0 +1,147 @@
+const PROCESSOR_NAME = 'vox-pcm-capture';
+
+/**
+ * Runs on the audio rendering thread. Mixes the input down to mono, resamples
+ * it from the context rate to the target rate with linear interpolation and
+ * posts fixed-size frames back to the main thread.
+ *
+ * Kept as a string so it can be loaded from a Blob URL without a separate
+ * bundler entry point.
+ */
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, frameSize } = options.processorOptions;
+    this.step = sampleRate / targetSampleRate;
+    this.frameSize = frameSize;
+    this.frame = new Float32Array(frameSize);
+    this.frameIndex = 0;
+    // Read position relative to the current block; -1 addresses the last sample of the previous block.
+    this.position = 0;
+    this.previous = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    const length = input[0].length;
+    const mono = input.length === 1 ? input[0] : new Float32Array(length);
+    if (input.length > 1) {
+      for (let c = 0; c < input.length; c++) {
+        const channel = input[c];
+        for (let i = 0; i < length; i++) mono[i] += channel[i] / input.length;
+      }
+    }
+
+    while (this.position < length - 1) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index < 0 ? this.previous : mono[index];
+      const b = mono[index + 1];
+      this.frame[this.frameIndex++] = a + (b - a) * fraction;
+
+      if (this.frameIndex === this.frameSize) {
+        this.port.postMessage(this.frame, [this.frame.buffer]);
+        this.frame = new Float32Array(this.frameSize);
+        this.frameIndex = 0;
+      }
+      this.position += this.step;
+    }
+
+    this.position -= length;
+    this.previous = mono[length - 1];
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureWorkletModule(ctx: AudioContext) {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export interface CaptureOptions {
+  targetSampleRate: number;
+  frameDurationMs: number;
+}
+
+export interface AudioCapture {
+  node: AudioWorkletNode;
+  // Fixed entry point of the capture graph; analysers tapped here follow stream swaps.
+  input: GainNode;
+  // Swaps the microphone stream without interrupting the frame flow.
+  setStream: (stream: MediaStream) => void;
+  stop: () => void;
+}
+
+/**
+ * Starts streaming microphone audio as mono Float32 frames at the target rate,
+ * independently of the rate the browser chose for the AudioContext.
+ */
+export async function startAudioCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  options: CaptureOptions,
+  onFrame: (frame: Float32Array) => void,
+): Promise<AudioCapture> {
+  await ensureWorkletModule(ctx);
+
+  const frameSize = Math.round(options.targetSampleRate * options.frameDurationMs / 1000);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    processorOptions: { targetSampleRate: options.targetSampleRate, frameSize },
+  });
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => onFrame(e.data);
+
+  const input = ctx.createGain();
+  let source = ctx.createMediaStreamSource(stream);
+  source.connect(input);
+
+  // Band-limit before decimating so content above the new Nyquist does not alias
+  const filters: BiquadFilterNode[] = [];
+  if (ctx.sampleRate > options.targetSampleRate) {
+    for (let i = 0; i < 2; i++) {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = options.targetSampleRate * 0.45;
+      filter.Q.value = Math.SQRT1_2;
+      filters.push(filter);
+    }
+  }
+
+  const tail = filters.reduce<AudioNode>((from, to) => {
+    from.connect(to);
+    return to;
+  }, input);
+  tail.connect(node);
+
+  return {
+    node,
+    input,
+    setStream: (next: MediaStream) => {
+      source.disconnect();
+      source = ctx.createMediaStreamSource(next);
+      source.connect(input);
+    },
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      input.disconnect();
+      filters.forEach(filter => filter.disconnect());
+      node.disconnect();
+    },
+  };
+}
@@ -0,0 +1,103 @@
+const AUDIO_DEVICE_STORAGE_KEY = 'vox.audioDevices';
+
+export interface AudioDeviceSettings {
+  // Empty string follows the system default device.
+  inputDeviceId: string;
+  outputDeviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_AUDIO_DEVICE_SETTINGS: AudioDeviceSettings = {
+  inputDeviceId: '',
+  outputDeviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export interface AudioDeviceList {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+// AudioContext.setSinkId is not in the TypeScript DOM lib yet
+interface SinkSelectableAudioContext extends AudioContext {
+  setSinkId(sinkId: string): Promise<void>;
+}
+
+export function loadAudioDeviceSettings(): AudioDeviceSettings {
+  try {
+    const raw = localStorage.getItem(AUDIO_DEVICE_STORAGE_KEY);
+    if (raw) return { ...DEFAULT_AUDIO_DEVICE_SETTINGS, ...JSON.parse(raw) };
+  } catch (err) {
+    console.warn('Ignoring unreadable audio device settings:', err);
+  }
+  return DEFAULT_AUDIO_DEVICE_SETTINGS;
+}
+
+export function saveAudioDeviceSettings(settings: AudioDeviceSettings) {
+  localStorage.setItem(AUDIO_DEVICE_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Device labels are only filled in once microphone permission has been granted. */
+export async function listAudioDevices(): Promise<AudioDeviceList> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(device => device.kind === 'audioinput'),
+    outputs: devices.filter(device => device.kind === 'audiooutput'),
+  };
+}
+
+export function buildAudioConstraints(settings: AudioDeviceSettings): MediaTrackConstraints {
+  return {
+    deviceId: settings.inputDeviceId ? { exact: settings.inputDeviceId } : undefined,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+/**
+ * Opens the configured microphone, falling back to the default device when
+ * the chosen one has been unplugged.
+ */
+export async function openMicrophone(settings: AudioDeviceSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings) });
+  } catch (err: any) {
+    if (settings.inputDeviceId && (err?.name === 'OverconstrainedError' || err?.name === 'NotFoundError')) {
+      console.warn('Selected microphone is unavailable, using the default device instead.');
+      return navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints({ ...settings, inputDeviceId: '' }) });
+    }
+    throw err;
+  }
+}
+
+/**
+ * Whether the stream is still coming from the device the settings ask for.
+ * Compares group ids, so a change of the system default is detected too.
+ */
+export function isUsingPreferredInput(stream: MediaStream, devices: AudioDeviceList, settings: AudioDeviceSettings): boolean {
+  const track = stream.getAudioTracks()[0];
+  if (!track || track.readyState === 'ended') return false;
+
+  const preferred = devices.inputs.find(device => device.deviceId === settings.inputDeviceId)
+    ?? devices.inputs.find(device => device.deviceId === 'default')
+    ?? devices.inputs[0];
+  if (!preferred) return true;
+
+  const { deviceId, groupId } = track.getSettings();
+  if (deviceId === preferred.deviceId) return true;
+  return Boolean(groupId && preferred.groupId && groupId === preferred.groupId);
+}
+
+export function supportsOutputSelection(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+export async function setOutputDevice(ctx: AudioContext, deviceId: string) {
+  if (!supportsOutputSelection()) return;
+  await (ctx as SinkSelectableAudioContext).setSinkId(deviceId);
+}
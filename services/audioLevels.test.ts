@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LevelModel, rmsToLevel, startLevelLoop } from './audioLevels';
+
+describe('rmsToLevel', () => {
+  it('maps -60 dBFS to 0 and full scale to 1', () => {
+    expect(rmsToLevel(0)).toBe(0);
+    expect(rmsToLevel(0.001)).toBeCloseTo(0);
+    expect(rmsToLevel(0.0316)).toBeCloseTo(0.5, 2);
+    expect(rmsToLevel(1)).toBe(1);
+    expect(rmsToLevel(2)).toBe(1);
+  });
+});
+
+describe('LevelModel', () => {
+  const run = (model: LevelModel, userRms: number, modelRms: number, ms: number) => {
+    for (let t = 0; t < ms; t += 16) model.update(userRms, modelRms, 16);
+    return model.current;
+  };
+
+  it('tracks each side separately and reports who is talking', () => {
+    const model = new LevelModel();
+
+    expect(run(model, 0.1, 0, 200).speaker).toBe('user');
+    expect(model.current.model).toBe(0);
+
+    expect(run(model, 0, 0.1, 2000).speaker).toBe('model');
+    expect(model.current.user).toBeLessThan(0.05);
+
+    expect(run(model, 0.1, 0.1, 200).speaker).toBe('both');
+    expect(run(model, 0, 0, 2000).speaker).toBe('none');
+  });
+
+  it('rises faster than it falls', () => {
+    const model = new LevelModel();
+    const risen = model.update(0.1, 0, 50).user;
+    model.update(0.1, 0, 1000);
+    const peak = model.current.user;
+    const fallen = peak - model.update(0, 0, 50).user;
+    expect(risen).toBeGreaterThan(fallen);
+  });
+
+  it('exposes the louder side as the combined level', () => {
+    const model = new LevelModel();
+    const levels = run(model, 0.01, 0.3, 500);
+    expect(levels.combined).toBe(levels.model);
+  });
+});
+
+describe('startLevelLoop', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  // An analyser whose signal is a constant amplitude, changed by the test
+  const fakeAnalyser = () => {
+    const analyser = {
+      fftSize: 32,
+      amplitude: 0,
+      getFloatTimeDomainData: (buffer: Float32Array) => buffer.fill(analyser.amplitude),
+    };
+    return analyser;
+  };
+
+  it('reports the speaker only when it changes', () => {
+    let pending: FrameRequestCallback | null = null;
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+      pending = callback;
+      return 1;
+    });
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    let now = performance.now();
+    const runFrames = (count: number) => {
+      for (let i = 0; i < count; i++) {
+        now += 16;
+        pending?.(now);
+      }
+    };
+
+    const input = fakeAnalyser();
+    const speakers: string[] = [];
+    const stop = startLevelLoop({
+      input: input as unknown as AnalyserNode,
+      output: null,
+      isInputMuted: () => false,
+      onFrame: () => {},
+      onSpeakerChange: speaker => speakers.push(speaker),
+    });
+
+    runFrames(30);
+    input.amplitude = 0.3;
+    runFrames(30);
+    input.amplitude = 0;
+    runFrames(120);
+    expect(speakers).toEqual(['user', 'none']);
+
+    input.amplitude = 0.3;
+    runFrames(30);
+    stop();
+    expect(speakers).toEqual(['user', 'none', 'user', 'none']);
+  });
+});
@@ -0,0 +1,133 @@
+export type ActiveSpeaker = 'none' | 'user' | 'model' | 'both';
+
+export interface AudioLevels {
+  // Smoothed loudness on a 0 to 1 scale (-60 dBFS to 0 dBFS).
+  user: number;
+  model: number;
+  // The louder of the two, for visuals that show overall activity.
+  combined: number;
+  speaker: ActiveSpeaker;
+}
+
+export const SILENT_LEVELS: AudioLevels = { user: 0, model: 0, combined: 0, speaker: 'none' };
+
+const FLOOR_DB = -60;
+// Levels rise quickly so onsets feel immediate, and fall slowly so they do not flicker
+const ATTACK_MS = 30;
+const RELEASE_MS = 250;
+// A side counts as talking above this level
+const SPEAKING_THRESHOLD = 0.35;
+
+export function rmsToLevel(rms: number): number {
+  if (rms <= 0) return 0;
+  const db = 20 * Math.log10(rms);
+  return Math.min(1, Math.max(0, (db - FLOOR_DB) / -FLOOR_DB));
+}
+
+const smooth = (current: number, target: number, elapsedMs: number) => {
+  const timeConstant = target > current ? ATTACK_MS : RELEASE_MS;
+  return current + (target - current) * (1 - Math.exp(-elapsedMs / timeConstant));
+};
+
+/**
+ * Blends microphone and playback energy into one model of who is talking.
+ * Each side is smoothed separately so the orb can show both at once.
+ */
+export class LevelModel {
+  private levels: AudioLevels = SILENT_LEVELS;
+
+  get current() {
+    return this.levels;
+  }
+
+  update(userRms: number, modelRms: number, elapsedMs: number): AudioLevels {
+    const user = smooth(this.levels.user, rmsToLevel(userRms), elapsedMs);
+    const model = smooth(this.levels.model, rmsToLevel(modelRms), elapsedMs);
+    const userTalking = user >= SPEAKING_THRESHOLD;
+    const modelTalking = model >= SPEAKING_THRESHOLD;
+    this.levels = {
+      user,
+      model,
+      combined: Math.max(user, model),
+      speaker: userTalking && modelTalking ? 'both' : userTalking ? 'user' : modelTalking ? 'model' : 'none',
+    };
+    return this.levels;
+  }
+
+  reset() {
+    this.levels = SILENT_LEVELS;
+  }
+}
+
+export function createLevelAnalyser(ctx: AudioContext, source: AudioNode): AnalyserNode {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 512;
+  source.connect(analyser);
+  return analyser;
+}
+
+function readRms(analyser: AnalyserNode | null, buffer: Float32Array<ArrayBuffer>): number {
+  if (!analyser) return 0;
+  analyser.getFloatTimeDomainData(buffer);
+  let sum = 0;
+  for (let i = 0; i < buffer.length; i++) sum += buffer[i] * buffer[i];
+  return Math.sqrt(sum / buffer.length);
+}
+
+export interface LevelLoopOptions {
+  input: AnalyserNode | null;
+  output: AnalyserNode | null;
+  isInputMuted: () => boolean;
+  // Every animation frame; keep it to direct DOM writes such as CSS variables.
+  onFrame: (levels: AudioLevels) => void;
+  // Throttled for React state, plus immediately whenever the active speaker changes.
+  onChange?: (levels: AudioLevels) => void;
+  changeIntervalMs?: number;
+  // Only when the active speaker changes, for state that does not need the levels themselves.
+  onSpeakerChange?: (speaker: ActiveSpeaker) => void;
+}
+
+/** Runs the level model on requestAnimationFrame. Returns a function that stops it. */
+export function startLevelLoop({
+  input,
+  output,
+  isInputMuted,
+  onFrame,
+  onChange,
+  changeIntervalMs = 100,
+  onSpeakerChange,
+}: LevelLoopOptions): () => void {
+  const model = new LevelModel();
+  const inputBuffer = new Float32Array(input?.fftSize ?? 0);
+  const outputBuffer = new Float32Array(output?.fftSize ?? 0);
+  let last = performance.now();
+  let lastChange = 0;
+  let lastSpeaker = model.current.speaker;
+  let frame = 0;
+
+  const tick = (now: number) => {
+    const userRms = isInputMuted() ? 0 : readRms(input, inputBuffer);
+    const levels = model.update(userRms, readRms(output, outputBuffer), now - last);
+    last = now;
+    onFrame(levels);
+
+    const speakerChanged = levels.speaker !== lastSpeaker;
+    if (speakerChanged) {
+      lastSpeaker = levels.speaker;
+      onSpeakerChange?.(levels.speaker);
+    }
+    if (speakerChanged || now - lastChange >= changeIntervalMs) {
+      lastChange = now;
+      onChange?.(levels);
+    }
+    frame = requestAnimationFrame(tick);
+  };
+  frame = requestAnimationFrame(tick);
+
+  return () => {
+    cancelAnimationFrame(frame);
+    onFrame(SILENT_LEVELS);
+    onChange?.(SILENT_LEVELS);
+    if (lastSpeaker !== 'none') onSpeakerChange?.('none');
+  };
+}
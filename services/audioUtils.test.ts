@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { createPcmBlob, decode, decodeAudioData, encode, encodeWav, resampleLinear } from './audioUtils';
+
+// Minimal AudioContext stand-in: decodeAudioData only needs createBuffer
+function fakeAudioContext(): AudioContext {
+  return {
+    createBuffer: (numberOfChannels: number, length: number, sampleRate: number) => {
+      const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+      return {
+        numberOfChannels,
+        length,
+        sampleRate,
+        duration: length / sampleRate,
+        getChannelData: (channel: number) => channels[channel],
+      };
+    },
+  } as unknown as AudioContext;
+}
+
+const pcmBytes = (...samples: number[]) => new Uint8Array(new Int16Array(samples).buffer);
+
+describe('encode / decode', () => {
+  it('round-trips every byte value', () => {
+    const bytes = new Uint8Array(256).map((_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('round-trips an empty buffer', () => {
+    expect(encode(new Uint8Array(0))).toBe('');
+    expect(decode('')).toEqual(new Uint8Array(0));
+  });
+});
+
+describe('createPcmBlob', () => {
+  it('labels the data with the given sample rate', () => {
+    expect(createPcmBlob(new Float32Array(4)).mimeType).toBe('audio/pcm;rate=16000');
+    expect(createPcmBlob(new Float32Array(4), 24000).mimeType).toBe('audio/pcm;rate=24000');
+  });
+
+  it('clamps samples outside [-1, 1] to the 16-bit range', () => {
+    const blob = createPcmBlob(new Float32Array([2, -3, 1, -1, 0]));
+    const bytes = decode(blob.data);
+    expect(Array.from(new Int16Array(bytes.buffer))).toEqual([32767, -32768, 32767, -32768, 0]);
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('converts 16-bit PCM to floats', async () => {
+    const buffer = await decodeAudioData(pcmBytes(0, 16384, -32768), fakeAudioContext(), 24000, 1);
+    expect(buffer.length).toBe(3);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -1]);
+  });
+
+  it('round-trips with createPcmBlob', async () => {
+    const samples = new Float32Array([0, 0.25, -0.5, 0.75]);
+    const buffer = await decodeAudioData(decode(createPcmBlob(samples).data), fakeAudioContext(), 16000, 1);
+    buffer.getChannelData(0).forEach((value, i) => expect(value).toBeCloseTo(samples[i], 4));
+  });
+
+  it('ignores a trailing odd byte instead of throwing', async () => {
+    const bytes = new Uint8Array([...pcmBytes(100, -100), 7]);
+    const buffer = await decodeAudioData(bytes, fakeAudioContext(), 24000, 1);
+    expect(buffer.length).toBe(2);
+    expect(buffer.getChannelData(0)[1]).toBeCloseTo(-100 / 32768);
+  });
+
+  it('reads only the viewed bytes of a larger, unaligned buffer', async () => {
+    const backing = new Uint8Array(7);
+    backing.set(pcmBytes(1000, 2000), 1);
+    const buffer = await decodeAudioData(backing.subarray(1, 5), fakeAudioContext(), 24000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([1000 / 32768, 2000 / 32768]);
+  });
+
+  it('de-interleaves multiple channels', async () => {
+    const buffer = await decodeAudioData(pcmBytes(1, 2, 3, 4, 5), fakeAudioContext(), 24000, 2);
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([1 / 32768, 3 / 32768]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([2 / 32768, 4 / 32768]);
+  });
+});
+
+describe('resampleLinear', () => {
+  it('returns the input when the rates match', () => {
+    const data = new Float32Array([1, 2, 3]);
+    expect(resampleLinear(data, 16000, 16000)).toBe(data);
+  });
+
+  it('interpolates when upsampling', () => {
+    expect(Array.from(resampleLinear(new Float32Array([0, 1]), 1, 2))).toEqual([0, 0.5, 1, 1]);
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a stereo 16-bit header and interleaved samples', () => {
+    const wav = encodeWav([new Float32Array([1, 0]), new Float32Array([-1, 0.5])], 24000);
+    const view = new DataView(wav);
+    const text = (offset: number) => String.fromCharCode(...new Uint8Array(wav, offset, 4));
+
+    expect(text(0)).toBe('RIFF');
+    expect(text(8)).toBe('WAVE');
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(8);
+    expect([0, 1, 2, 3].map(i => view.getInt16(44 + i * 2, true))).toEqual([32767, -32768, 0, 16383]);
+  });
+});
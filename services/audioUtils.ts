@@ -24,8 +24,12 @@ export async function decodeAudioData(
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
+  // A trailing odd byte cannot form a sample, and views into a larger buffer may start unaligned
+  const byteLength = data.byteLength - (data.byteLength % 2);
+  const dataInt16 = data.byteOffset % 2 === 0
+    ? new Int16Array(data.buffer, data.byteOffset, byteLength / 2)
+    : new Int16Array(data.slice(0, byteLength).buffer);
+  const frameCount = Math.floor(dataInt16.length / numChannels);
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
@@ -37,7 +41,7 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
+export function createPcmBlob(data: Float32Array, sampleRate = 16000): { data: string; mimeType: string } {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -47,6 +51,65 @@ export function createPcmBlob(data: Float32Array): { data: string; mimeType: str
   }
   return {
     data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
+
+/**
+ * Resamples mono audio with linear interpolation. Good enough for aligning
+ * recordings; live capture is band-limited in the capture worklet instead.
+ */
+export function resampleLinear(data: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || data.length === 0) return data;
+  const length = Math.max(1, Math.round(data.length * toRate / fromRate));
+  const result = new Float32Array(length);
+  const step = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const a = data[Math.min(index, data.length - 1)];
+    const b = data[Math.min(index + 1, data.length - 1)];
+    result[i] = a + (b - a) * (position - index);
+  }
+  return result;
+}
+
+/**
+ * Encodes equal-length channels as an interleaved 16-bit PCM WAV file.
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const numChannels = channels.length;
+  const frameCount = channels[0]?.length ?? 0;
+  const blockAlign = numChannels * 2;
+  const dataSize = frameCount * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      const s = Math.max(-1, Math.min(1, channels[channel][i]));
+      view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+      offset += 2;
+    }
+  }
+  return buffer;
+}
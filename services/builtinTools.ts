@@ -0,0 +1,174 @@
+import { Type } from '@google/genai';
+import { ToolRegistry } from './toolRegistry';
+
+const NOTES_STORAGE_KEY = 'vox.notes';
+const MAX_TIMER_SECONDS = 24 * 60 * 60;
+
+interface Note {
+  id: string;
+  text: string;
+  createdAt: string;
+}
+
+interface Timer {
+  id: string;
+  label: string;
+  endsAt: number;
+  handle: ReturnType<typeof setTimeout>;
+}
+
+function loadNotes(): Note[] {
+  try {
+    const raw = localStorage.getItem(NOTES_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveNotes(notes: Note[]) {
+  localStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
+}
+
+export interface BuiltinToolOptions {
+  // Called when a timer runs out so the app can have Vox announce it.
+  onTimerFinished: (label: string) => void;
+}
+
+/**
+ * Registers the tools every Vox session gets: the current time, countdown
+ * timers and a notes store kept in localStorage. Returns a disposer that
+ * unregisters them and clears any running timers.
+ */
+export function registerBuiltinTools(registry: ToolRegistry, options: BuiltinToolOptions): () => void {
+  const timers = new Map<string, Timer>();
+  let nextTimerId = 1;
+
+  const unregister = [
+    registry.register({
+      declaration: {
+        name: 'get_current_time',
+        description: "Returns the user's current local date, time and time zone.",
+      },
+      handler: async () => {
+        const now = new Date();
+        return {
+          iso: now.toISOString(),
+          local: now.toLocaleString(),
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        };
+      },
+    }),
+
+    registry.register<{ seconds: number; label?: string }>({
+      declaration: {
+        name: 'start_timer',
+        description: 'Starts a countdown timer. The user is told when it finishes.',
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            seconds: { type: Type.INTEGER, description: 'Duration of the timer in seconds.' },
+            label: { type: Type.STRING, description: 'Short name for the timer, for example "tea".' },
+          },
+          required: ['seconds'],
+        },
+      },
+      handler: async ({ seconds, label }) => {
+        if (!Number.isFinite(seconds) || seconds <= 0 || seconds > MAX_TIMER_SECONDS) {
+          throw new Error(`Timers must be between 1 second and ${MAX_TIMER_SECONDS / 3600} hours.`);
+        }
+        const id = String(nextTimerId++);
+        const timerLabel = label || `${seconds} second timer`;
+        const handle = setTimeout(() => {
+          timers.delete(id);
+          options.onTimerFinished(timerLabel);
+        }, seconds * 1000);
+        timers.set(id, { id, label: timerLabel, endsAt: Date.now() + seconds * 1000, handle });
+        return { id, label: timerLabel, seconds };
+      },
+    }),
+
+    registry.register({
+      declaration: {
+        name: 'list_timers',
+        description: 'Lists the running timers and how many seconds each has left.',
+      },
+      handler: async () => ({
+        timers: [...timers.values()].map(timer => ({
+          id: timer.id,
+          label: timer.label,
+          secondsLeft: Math.max(0, Math.round((timer.endsAt - Date.now()) / 1000)),
+        })),
+      }),
+    }),
+
+    registry.register<{ id: string }>({
+      declaration: {
+        name: 'cancel_timer',
+        description: 'Cancels a running timer by its id.',
+        parameters: {
+          type: Type.OBJECT,
+          properties: { id: { type: Type.STRING, description: 'Id returned by start_timer or list_timers.' } },
+          required: ['id'],
+        },
+      },
+      handler: async ({ id }) => {
+        const timer = timers.get(id);
+        if (!timer) throw new Error(`There is no running timer with id ${id}.`);
+        clearTimeout(timer.handle);
+        timers.delete(id);
+        return { cancelled: timer.label };
+      },
+    }),
+
+    registry.register<{ text: string }>({
+      declaration: {
+        name: 'add_note',
+        description: 'Saves a short note for the user on this device.',
+        parameters: {
+          type: Type.OBJECT,
+          properties: { text: { type: Type.STRING, description: 'The note to save.' } },
+          required: ['text'],
+        },
+      },
+      handler: async ({ text }) => {
+        if (!text?.trim()) throw new Error('The note is empty.');
+        const note: Note = { id: crypto.randomUUID(), text: text.trim(), createdAt: new Date().toISOString() };
+        saveNotes([...loadNotes(), note]);
+        return { saved: note };
+      },
+    }),
+
+    registry.register({
+      declaration: {
+        name: 'list_notes',
+        description: 'Returns all notes the user has saved on this device, oldest first.',
+      },
+      handler: async () => ({ notes: loadNotes() }),
+    }),
+
+    registry.register<{ id: string }>({
+      declaration: {
+        name: 'delete_note',
+        description: 'Deletes a saved note by its id.',
+        parameters: {
+          type: Type.OBJECT,
+          properties: { id: { type: Type.STRING, description: 'Id of the note from list_notes.' } },
+          required: ['id'],
+        },
+      },
+      handler: async ({ id }) => {
+        const notes = loadNotes();
+        if (!notes.some(note => note.id === id)) throw new Error(`There is no note with id ${id}.`);
+        saveNotes(notes.filter(note => note.id !== id));
+        return { deleted: id };
+      },
+    }),
+  ];
+
+  return () => {
+    unregister.forEach(fn => fn());
+    timers.forEach(timer => clearTimeout(timer.handle));
+    timers.clear();
+  };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguages } from './languageDetection';
+
+describe('detectLanguages', () => {
+  it.each([
+    ['What is the price of this one?', ['en']],
+    ['Boleh saya tahu harga barang ini?', ['ms']],
+    ['Bisa saya tahu harganya? Saya mau beli.', ['id']],
+    ['¿Cuánto cuesta? Gracias por la ayuda.', ['es']],
+    ['你好，今天天气怎么样？', ['cmn']],
+    ['今日はいい天気ですね', ['ja']],
+    ['안녕하세요, 반갑습니다', ['ko']],
+  ])('detects %s', (text, expected) => {
+    expect(detectLanguages(text)).toEqual(expected);
+  });
+
+  it('reports both languages of a mixed turn', () => {
+    expect(detectLanguages('Saya nak tanya about the price of this one, boleh?').sort()).toEqual(['en', 'ms']);
+  });
+
+  it('does not call a Malay turn mixed because of words Indonesian shares', () => {
+    expect(detectLanguages('Terima kasih, saya sudah ada yang itu')).toEqual(['ms']);
+  });
+
+  it('gives up on turns with nothing to go on', () => {
+    expect(detectLanguages('Hmm, okay.')).toEqual([]);
+    expect(detectLanguages('')).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+// Languages with their own script are recognised by character; Kana is checked
+// before Han so Japanese is not mistaken for Chinese.
+const SCRIPTS: { id: string; pattern: RegExp }[] = [
+  { id: 'ja', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+  { id: 'ko', pattern: /\p{Script=Hangul}/gu },
+  { id: 'cmn', pattern: /\p{Script=Han}/gu },
+  { id: 'th', pattern: /\p{Script=Thai}/gu },
+  { id: 'ta', pattern: /\p{Script=Tamil}/gu },
+  { id: 'hi', pattern: /\p{Script=Devanagari}/gu },
+  { id: 'ar', pattern: /\p{Script=Arabic}/gu },
+];
+
+// Latin-script languages are told apart by common function words. Malay and
+// Indonesian share most of theirs, so their lists lean on the words that differ.
+const FUNCTION_WORDS: Record<string, Set<string>> = {
+  en: new Set('the a an and is are was you i to of it what how can this that my do does for with have please thanks yes no not about'.split(' ')),
+  ms: new Set('saya awak anda tidak tak boleh ini itu yang dan untuk dengan ada apa macam mana nak mahu kerana sahaja khabar terima kasih ialah sangat sudah belum kita kami'.split(' ')),
+  id: new Set('saya aku kamu anda tidak nggak gak bisa ini itu yang dan untuk dengan ada apa gimana bagaimana mau karena saja kabar terima kasih adalah sangat sudah belum kita kami'.split(' ')),
+  vi: new Set('tôi bạn không là có của và được này những cho với gì làm rất'.split(' ')),
+  es: new Set('el la los las que de y es en por para con no una un qué cómo gracias sí yo tú'.split(' ')),
+  fr: new Set('le la les que de et est en pour avec ne pas une un je tu vous merci oui comment'.split(' ')),
+  de: new Set('der die das und ist ich du sie nicht mit für ein eine zu wie was danke ja nein auf'.split(' ')),
+};
+
+// Roughly two characters of a logographic script carry a word's worth of evidence
+const CHARS_PER_WORD = 2;
+// A second language is only reported with at least this much evidence of its own
+const MIN_SECONDARY_WORDS = 2;
+const MIN_SECONDARY_SHARE = 0.3;
+
+/**
+ * Best guess at the languages of a turn, most likely first; two when the turn
+ * mixes languages and none when there is too little to go on.
+ */
+export function detectLanguages(text: string): string[] {
+  const scores = new Map<string, Set<number> | number>();
+
+  let scriptText = text;
+  for (const { id, pattern } of SCRIPTS) {
+    const count = scriptText.match(pattern)?.length ?? 0;
+    if (count > 0) scores.set(id, count / CHARS_PER_WORD);
+    // Han characters inside Japanese text belong to Japanese
+    if (id === 'ja' && count > 0) scriptText = scriptText.replace(/\p{Script=Han}/gu, '');
+  }
+
+  const words = text.toLowerCase().match(/[\p{Script=Latin}']+/gu) ?? [];
+  for (const [id, list] of Object.entries(FUNCTION_WORDS)) {
+    const hits = new Set<number>();
+    words.forEach((word, index) => {
+      if (list.has(word)) hits.add(index);
+    });
+    if (hits.size > 0) scores.set(id, hits);
+  }
+
+  const score = (value: Set<number> | number) => (typeof value === 'number' ? value : value.size);
+  const ranked = [...scores.entries()].sort((a, b) => score(b[1]) - score(a[1]));
+  if (ranked.length === 0 || score(ranked[0][1]) < 1) return [];
+
+  const [topId, topEvidence] = ranked[0];
+  for (const [id, evidence] of ranked.slice(1)) {
+    // Only count words the top language cannot also claim
+    const own = typeof evidence === 'number' || typeof topEvidence === 'number'
+      ? score(evidence)
+      : [...evidence].filter(index => !topEvidence.has(index)).length;
+    if (own >= MIN_SECONDARY_WORDS && own >= score(topEvidence) * MIN_SECONDARY_SHARE) return [topId, id];
+  }
+  return [topId];
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { LanguageSettings } from '../types';
+import {
+  DEFAULT_LANGUAGE_SETTINGS,
+  buildLanguageInstruction,
+  describeLanguageSettings,
+  expectedLanguages,
+  resolveVoice,
+  speechLanguageCode,
+} from './languages';
+
+const settings = (overrides: Partial<LanguageSettings>): LanguageSettings => ({ ...DEFAULT_LANGUAGE_SETTINGS, ...overrides });
+
+describe('language settings', () => {
+  it('leaves auto mode to the persona', () => {
+    const auto = settings({ mode: 'auto' });
+    expect(buildLanguageInstruction(auto)).toBe('');
+    expect(speechLanguageCode(auto)).toBeUndefined();
+    expect(resolveVoice('Puck', auto)).toBe('Puck');
+    expect(expectedLanguages(auto)).toBeNull();
+  });
+
+  it('locks speech, voice and instructions to one language', () => {
+    const locked = settings({ mode: 'locked', primary: 'id' });
+    expect(buildLanguageInstruction(locked)).toContain('Always respond in Indonesian');
+    expect(speechLanguageCode(locked)).toBe('id-ID');
+    expect(resolveVoice('Puck', locked)).toBe('Leda');
+    expect(resolveVoice('Puck', { ...locked, matchVoice: false })).toBe('Puck');
+  });
+
+  it('omits the speech locale for languages the Live API has none for', () => {
+    expect(speechLanguageCode(settings({ mode: 'locked', primary: 'ms' }))).toBeUndefined();
+  });
+
+  it('keeps a bilingual pair to its two languages', () => {
+    const pair = settings({ mode: 'bilingual', primary: 'ms', secondary: 'en' });
+    expect(buildLanguageInstruction(pair)).toContain('whichever of Malay or English');
+    expect(speechLanguageCode(pair)).toBeUndefined();
+    expect(expectedLanguages(pair)).toEqual(['ms', 'en']);
+    expect(describeLanguageSettings(pair)).toBe('Malay + English');
+  });
+
+  it('translates between the pair in interpreter mode', () => {
+    const interpreter = settings({ mode: 'bilingual', primary: 'ms', secondary: 'en', interpreter: true });
+    expect(buildLanguageInstruction(interpreter)).toContain('When the user speaks Malay, translate into English');
+    expect(describeLanguageSettings(interpreter)).toBe('Interpreter · Malay + English');
+  });
+
+  it('translates into the primary language when interpreting without a pair', () => {
+    const interpreter = settings({ mode: 'auto', primary: 'en', interpreter: true });
+    expect(buildLanguageInstruction(interpreter)).toContain('Translate everything the user says into English');
+    expect(speechLanguageCode(interpreter)).toBe('en-US');
+    expect(expectedLanguages(interpreter)).toEqual(['en']);
+  });
+});
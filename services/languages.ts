@@ -0,0 +1,140 @@
+import { LanguageSettings } from '../types';
+
+export interface LanguageOption {
+  id: string;
+  label: string;
+  // speechConfig.languageCode; absent where the Live API has no speech locale for the language
+  speechCode?: string;
+  // Suggested voice when the language is locked. Every prebuilt voice speaks every
+  // language, so this is a preference rather than a requirement.
+  voice: string;
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { id: 'en', label: 'English', speechCode: 'en-US', voice: 'Kore' },
+  { id: 'ms', label: 'Malay', voice: 'Aoede' },
+  { id: 'id', label: 'Indonesian', speechCode: 'id-ID', voice: 'Leda' },
+  { id: 'cmn', label: 'Mandarin Chinese', speechCode: 'cmn-CN', voice: 'Zephyr' },
+  { id: 'ta', label: 'Tamil', speechCode: 'ta-IN', voice: 'Puck' },
+  { id: 'hi', label: 'Hindi', speechCode: 'hi-IN', voice: 'Charon' },
+  { id: 'ar', label: 'Arabic', speechCode: 'ar-XA', voice: 'Orus' },
+  { id: 'ja', label: 'Japanese', speechCode: 'ja-JP', voice: 'Leda' },
+  { id: 'ko', label: 'Korean', speechCode: 'ko-KR', voice: 'Aoede' },
+  { id: 'th', label: 'Thai', speechCode: 'th-TH', voice: 'Zephyr' },
+  { id: 'vi', label: 'Vietnamese', speechCode: 'vi-VN', voice: 'Kore' },
+  { id: 'es', label: 'Spanish', speechCode: 'es-ES', voice: 'Fenrir' },
+  { id: 'fr', label: 'French', speechCode: 'fr-FR', voice: 'Aoede' },
+  { id: 'de', label: 'German', speechCode: 'de-DE', voice: 'Orus' },
+];
+
+export const LANGUAGE_MODES: { value: LanguageSettings['mode']; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'locked', label: 'One language' },
+  { value: 'bilingual', label: 'Bilingual' },
+];
+
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = {
+  mode: 'auto',
+  primary: 'ms',
+  secondary: 'en',
+  interpreter: false,
+  matchVoice: true,
+};
+
+const LANGUAGE_STORAGE_KEY = 'vox.language';
+
+export const languageLabel = (id: string) => LANGUAGES.find(language => language.id === id)?.label ?? id;
+
+const isLanguageId = (value: unknown): value is string => LANGUAGES.some(language => language.id === value);
+
+export function loadLanguageSettings(): LanguageSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LANGUAGE_STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored === 'object') {
+      const settings: LanguageSettings = {
+        mode: LANGUAGE_MODES.some(option => option.value === stored.mode) ? stored.mode : DEFAULT_LANGUAGE_SETTINGS.mode,
+        primary: isLanguageId(stored.primary) ? stored.primary : DEFAULT_LANGUAGE_SETTINGS.primary,
+        secondary: isLanguageId(stored.secondary) ? stored.secondary : DEFAULT_LANGUAGE_SETTINGS.secondary,
+        interpreter: stored.interpreter === true,
+        matchVoice: stored.matchVoice !== false,
+      };
+      // A pair of the same language is just a lock
+      if (settings.mode === 'bilingual' && settings.primary === settings.secondary) settings.mode = 'locked';
+      return settings;
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_LANGUAGE_SETTINGS;
+}
+
+export function saveLanguageSettings(settings: LanguageSettings) {
+  localStorage.setItem(LANGUAGE_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** The one language Vox should speak, when the settings pin it down. */
+function singleLanguage(settings: LanguageSettings): LanguageOption | undefined {
+  if (settings.mode === 'locked' || (settings.interpreter && settings.mode !== 'bilingual')) {
+    return LANGUAGES.find(language => language.id === settings.primary);
+  }
+  return undefined;
+}
+
+/** Languages Vox is expected to reply in, or null when it mirrors the user. */
+export function expectedLanguages(settings: LanguageSettings): string[] | null {
+  if (settings.mode === 'bilingual') return [settings.primary, settings.secondary];
+  const single = singleLanguage(settings);
+  return single ? [single.id] : null;
+}
+
+export function speechLanguageCode(settings: LanguageSettings): string | undefined {
+  return singleLanguage(settings)?.speechCode;
+}
+
+export function resolveVoice(personaVoice: string, settings: LanguageSettings): string {
+  const single = singleLanguage(settings);
+  return settings.matchVoice && single ? single.voice : personaVoice;
+}
+
+export function describeLanguageSettings(settings: LanguageSettings): string {
+  const languages = settings.mode === 'auto' && !settings.interpreter
+    ? 'Auto'
+    : settings.mode === 'bilingual'
+      ? `${languageLabel(settings.primary)} + ${languageLabel(settings.secondary)}`
+      : languageLabel(settings.primary);
+  return settings.interpreter ? `Interpreter · ${languages}` : languages;
+}
+
+/**
+ * System instruction section for the language settings, placed after the
+ * persona so it wins over the persona's own language guidance. Empty for auto.
+ */
+export function buildLanguageInstruction(settings: LanguageSettings): string {
+  const primary = languageLabel(settings.primary);
+  const secondary = languageLabel(settings.secondary);
+
+  if (settings.interpreter) {
+    const direction = settings.mode === 'bilingual'
+      ? `- When the user speaks ${primary}, translate into ${secondary}. When the user speaks ${secondary}, translate into ${primary}.`
+      : `- Translate everything the user says into ${primary}.`;
+    return `INTERPRETER MODE (overrides all earlier instructions):
+- You are an interpreter, not an assistant. Do not answer questions, follow requests, call tools or add comments of your own.
+${direction}
+- Keep the meaning, tone and register. Say only the translation, in the first person, as the user said it.
+- If you cannot make out what was said, ask the user to repeat it, in ${primary}.`;
+  }
+
+  if (settings.mode === 'locked') {
+    return `LANGUAGE LOCK (overrides any other language guidance):
+- Always respond in ${primary}, even if the user speaks another language or asks you to switch.`;
+  }
+
+  if (settings.mode === 'bilingual') {
+    return `BILINGUAL MODE (overrides any other language guidance):
+- Respond in whichever of ${primary} or ${secondary} the user last spoke.
+- If the user mixes the two, you may mix them the same way.
+- Never switch to any other language. If the user speaks one, respond in ${primary}.`;
+  }
+
+  return '';
+}
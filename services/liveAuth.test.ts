@@ -0,0 +1,49 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { Modality } from '../types';
+import { fetchLiveToken } from './liveAuth';
+
+let server: Server | null = null;
+
+// Local stand-in for the token endpoint that echoes the request back in the token
+async function startStandIn(status: number, body: (request: any) => unknown) {
+  server = createServer(async (req, res) => {
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body(JSON.parse(raw))));
+  });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/live-token`;
+}
+
+afterEach(async () => {
+  if (server) await new Promise(resolve => server!.close(resolve));
+  server = null;
+});
+
+describe('fetchLiveToken', () => {
+  it('posts the session model and modality and returns the token', async () => {
+    const endpoint = await startStandIn(200, request => ({
+      token: `token-for-${request.model}-${request.responseModalities.join()}`,
+      expireTime: '2030-01-01T00:00:00.000Z',
+    }));
+
+    const result = await fetchLiveToken({ model: 'live-model', responseModalities: [Modality.TEXT] }, endpoint);
+
+    expect(result).toEqual({ token: 'token-for-live-model-TEXT', expireTime: '2030-01-01T00:00:00.000Z' });
+  });
+
+  it('surfaces the server error message', async () => {
+    const endpoint = await startStandIn(429, () => ({ error: 'Too many sessions started. Try again in 30s.' }));
+    await expect(fetchLiveToken({ model: 'live-model', responseModalities: [Modality.AUDIO] }, endpoint))
+      .rejects.toThrow('Too many sessions started. Try again in 30s.');
+  });
+
+  it('rejects a response without a token', async () => {
+    const endpoint = await startStandIn(200, () => ({}));
+    await expect(fetchLiveToken({ model: 'live-model', responseModalities: [Modality.AUDIO] }, endpoint))
+      .rejects.toThrow('invalid response');
+  });
+});
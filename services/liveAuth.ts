@@ -0,0 +1,24 @@
+import { LiveTokenRequest, LiveTokenResponse } from '../types';
+
+// Served by the token server in server/, proxied by Vite in development
+export const LIVE_TOKEN_ENDPOINT = '/api/live-token';
+
+/** Asks the token server for an ephemeral token, so the API key never reaches the browser. */
+export async function fetchLiveToken(
+  request: LiveTokenRequest,
+  endpoint = LIVE_TOKEN_ENDPOINT,
+): Promise<LiveTokenResponse> {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error || `Could not get a session token (HTTP ${response.status}).`);
+  }
+  if (typeof body?.token !== 'string') {
+    throw new Error('The token server returned an invalid response.');
+  }
+  return body;
+}
@@ -0,0 +1,196 @@
+import { LiveServerMessage } from '@google/genai';
+import { describe, expect, it, vi } from 'vitest';
+import { ConnectionStatus } from '../types';
+import { LiveConnectionManager } from './liveConnection';
+import {
+  MockLiveScript,
+  MockLiveTransport,
+  mockAudioChunk,
+  mockGoAway,
+  mockInterrupted,
+  mockOutputTranscript,
+  mockResumptionUpdate,
+  mockToolCall,
+  mockToolCallCancellation,
+  toneSamples,
+} from './mockLiveTransport';
+import { ToolRegistry } from './toolRegistry';
+
+function createManager(scripts: MockLiveScript[], options: { maxReconnectAttempts?: number } = {}) {
+  const transport = new MockLiveTransport(scripts);
+  const statuses: ConnectionStatus[] = [];
+  const errors: string[] = [];
+  const messages: LiveServerMessage[] = [];
+  const manager = new LiveConnectionManager({
+    transport,
+    model: 'mock-model',
+    getConfig: () => ({ systemInstruction: 'Be brief.' }),
+    onStatusChange: (status, error) => {
+      statuses.push(status);
+      if (error) errors.push(error);
+    },
+    onMessage: message => messages.push(message),
+    baseReconnectDelayMs: 1,
+    maxReconnectDelayMs: 5,
+    ...options,
+  });
+  return { manager, transport, statuses, errors, messages };
+}
+
+describe('LiveConnectionManager', () => {
+  it('connects and forwards scripted server messages', async () => {
+    const { manager, transport, statuses, messages } = createManager([{
+      steps: [
+        { kind: 'message', message: mockAudioChunk(toneSamples(440, 20)) },
+        { kind: 'message', message: mockOutputTranscript('Hello') },
+        { kind: 'message', message: mockInterrupted() },
+      ],
+    }]);
+
+    await manager.connect();
+    await vi.waitFor(() => expect(messages).toHaveLength(3));
+
+    expect(statuses).toEqual(['connecting', 'connected']);
+    expect(transport.sessions[0].params.config?.systemInstruction).toBe('Be brief.');
+    expect(messages[0].serverContent?.modelTurn?.parts?.[0]?.inlineData?.mimeType).toBe('audio/pcm;rate=24000');
+    expect(messages[1].serverContent?.outputTranscription?.text).toBe('Hello');
+    expect(messages[2].serverContent?.interrupted).toBe(true);
+  });
+
+  it('only sends input while the session is open', async () => {
+    const { manager, transport } = createManager([{ steps: [] }]);
+    manager.sendRealtimeInput({ text: 'too early' });
+
+    await manager.connect();
+    manager.sendRealtimeInput({ text: 'hello' });
+    manager.disconnect();
+    manager.sendRealtimeInput({ text: 'too late' });
+
+    expect(transport.sessions[0].sent).toEqual([
+      { type: 'realtimeInput', params: { text: 'hello' } },
+      { type: 'close' },
+    ]);
+  });
+
+  it('reconnects with the latest resumption handle after a dropped connection', async () => {
+    const { manager, transport, statuses } = createManager([
+      {
+        steps: [
+          { kind: 'message', message: mockResumptionUpdate('handle-1') },
+          { kind: 'message', message: mockResumptionUpdate('handle-2') },
+          { kind: 'close', code: 1006 },
+        ],
+      },
+      { steps: [] },
+    ]);
+
+    await manager.connect();
+    await vi.waitFor(() => expect(transport.sessions).toHaveLength(2));
+    await vi.waitFor(() => expect(statuses.at(-1)).toBe('connected'));
+
+    expect(transport.sessions[0].params.config?.sessionResumption?.handle).toBeUndefined();
+    expect(transport.sessions[1].params.config?.sessionResumption?.handle).toBe('handle-2');
+    expect(statuses).toEqual(['connecting', 'connected', 'reconnecting', 'connected']);
+  });
+
+  it('hands over to a new session when the server sends goAway', async () => {
+    const { manager, transport } = createManager([
+      { steps: [{ kind: 'message', message: mockResumptionUpdate('handle-1') }, { kind: 'message', message: mockGoAway() }] },
+      { steps: [] },
+    ]);
+
+    await manager.connect();
+    await vi.waitFor(() => expect(transport.sessions).toHaveLength(2));
+
+    expect(transport.sessions[0].isClosed).toBe(true);
+    expect(transport.sessions[1].params.config?.sessionResumption?.handle).toBe('handle-1');
+    await vi.waitFor(() => expect(manager.isOpen).toBe(true));
+  });
+
+  it('gives up with an error once reconnect attempts are exhausted', async () => {
+    const { manager, statuses, errors } = createManager([
+      { steps: [{ kind: 'close', code: 1006 }] },
+      { rejectWith: { code: 1011, reason: 'Service unavailable' }, steps: [] },
+    ], { maxReconnectAttempts: 2 });
+
+    await manager.connect();
+    await vi.waitFor(() => expect(statuses.at(-1)).toBe('error'));
+
+    expect(statuses.filter(status => status === 'reconnecting')).toHaveLength(1);
+    expect(errors).toEqual(['Service unavailable']);
+  });
+
+  it('does not retry when the server rejects the setup', async () => {
+    const { manager, transport, statuses, errors } = createManager([
+      { rejectWith: { code: 1007, reason: 'Invalid argument' }, steps: [] },
+    ]);
+
+    await expect(manager.connect()).rejects.toThrow('Invalid argument');
+    expect(transport.sessions).toHaveLength(1);
+    expect(statuses).toEqual(['connecting', 'error']);
+    expect(errors).toEqual(['Invalid argument']);
+  });
+
+  it('does not reconnect after the caller disconnects', async () => {
+    const { manager, transport, statuses } = createManager([{ steps: [] }]);
+
+    await manager.connect();
+    manager.disconnect();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(transport.sessions).toHaveLength(1);
+    expect(statuses).toEqual(['connecting', 'connected']);
+  });
+
+  it('answers scripted tool calls through the tool registry', async () => {
+    const registry = new ToolRegistry();
+    registry.register<{ a: number; b: number }>({
+      declaration: { name: 'add' },
+      handler: async ({ a, b }) => ({ sum: a + b }),
+    });
+    let release: () => void = () => {};
+    registry.register({
+      declaration: { name: 'slow' },
+      handler: (_args, { signal }) => new Promise((resolve, reject) => {
+        release = () => resolve({ done: true });
+        signal.addEventListener('abort', () => reject(new Error('aborted')));
+      }),
+    });
+
+    const transport = new MockLiveTransport([{
+      steps: [
+        { kind: 'message', message: mockToolCall([{ id: 'call-1', name: 'add', args: { a: 2, b: 3 } }]) },
+        { kind: 'waitFor', event: 'toolResponse' },
+        { kind: 'message', message: mockToolCall([{ id: 'call-2', name: 'slow', args: {} }]) },
+        { kind: 'message', message: mockToolCallCancellation(['call-2']) },
+      ],
+    }]);
+    const manager = new LiveConnectionManager({
+      transport,
+      model: 'mock-model',
+      getConfig: () => ({ tools: registry.getTools() }),
+      onStatusChange: () => {},
+      onMessage: message => {
+        if (message.toolCall) {
+          registry.handleToolCall(message.toolCall).then(functionResponses => {
+            if (functionResponses.length > 0) manager.sendToolResponse({ functionResponses });
+          });
+        }
+        if (message.toolCallCancellation?.ids) registry.cancel(message.toolCallCancellation.ids);
+      },
+    });
+
+    await manager.connect();
+    const session = transport.sessions[0];
+    await vi.waitFor(() => expect(session.sent).toHaveLength(1));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    release();
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(session.params.config?.tools).toEqual([{ functionDeclarations: [{ name: 'add' }, { name: 'slow' }] }]);
+    expect(session.sent).toEqual([{
+      type: 'toolResponse',
+      params: { functionResponses: [{ id: 'call-1', name: 'add', response: { output: { sum: 5 } } }] },
+    }]);
+  });
+});
@@ -0,0 +1,227 @@
+import {
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { ConnectionStatus } from '../types';
+import { LiveSession, LiveTransport } from './liveTransport';
+
+// Close codes for which retrying with the same config cannot succeed
+const FATAL_CLOSE_CODES = new Set([1007, 1008]);
+
+class SessionClosedError extends Error {
+  constructor(readonly code: number, reason: string) {
+    super(reason || 'The connection closed before it could be established.');
+    this.name = 'SessionClosedError';
+  }
+
+  get isFatal() {
+    return FATAL_CLOSE_CODES.has(this.code);
+  }
+}
+
+export interface LiveConnectionOptions {
+  transport: LiveTransport;
+  model: string;
+  // Read on every (re)connect so the latest tools and instructions are used.
+  getConfig: () => LiveConnectConfig;
+  onStatusChange: (status: ConnectionStatus, error?: string) => void;
+  onMessage: (message: LiveServerMessage) => void;
+  maxReconnectAttempts?: number;
+  baseReconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+/**
+ * Owns the Live session lifecycle. Unexpected closes are retried with
+ * exponential backoff, and `goAway` notices trigger a proactive handover.
+ * Both resume from the latest session resumption handle so the model keeps
+ * the conversation context.
+ */
+export class LiveConnectionManager {
+  private session: LiveSession | null = null;
+  private status: ConnectionStatus = 'disconnected';
+  private resumptionHandle: string | undefined;
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped for every session so callbacks from a replaced session are ignored
+  private generation = 0;
+  private lastError: string | undefined;
+  // False once the caller disconnects or the manager gives up
+  private active = false;
+
+  constructor(private readonly options: LiveConnectionOptions) {}
+
+  get isOpen() {
+    return this.status === 'connected' && this.session !== null;
+  }
+
+  /** Opens a fresh conversation. Rejects if the first connection attempt fails. */
+  async connect() {
+    this.active = true;
+    this.resumptionHandle = undefined;
+    this.attempts = 0;
+    this.setStatus('connecting');
+    try {
+      await this.openSession();
+    } catch (err: any) {
+      if (this.active) this.fail(err?.message || 'Failed to start the conversation.');
+      throw err;
+    }
+  }
+
+  /** Ends the conversation. The caller already knows, so no status change is reported. */
+  disconnect() {
+    this.active = false;
+    this.clearReconnectTimer();
+    this.closeSession();
+    this.resumptionHandle = undefined;
+    this.status = 'disconnected';
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    if (this.isOpen) this.session!.sendRealtimeInput(params);
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    if (this.isOpen) this.session!.sendClientContent(params);
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    if (this.isOpen) this.session!.sendToolResponse(params);
+  }
+
+  private async openSession() {
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation;
+
+    // live.connect only resolves once the socket opens, so surface an early close as a rejection
+    let opened = false;
+    let rejectOpen: (err: SessionClosedError) => void = () => {};
+    const closedBeforeOpen = new Promise<never>((_, reject) => {
+      rejectOpen = reject;
+    });
+
+    const connecting = this.options.transport.connect({
+      model: this.options.model,
+      config: {
+        ...this.options.getConfig(),
+        sessionResumption: { handle: this.resumptionHandle },
+      },
+      callbacks: {
+        onopen: () => {
+          opened = true;
+          if (!isCurrent()) return;
+          this.attempts = 0;
+          this.lastError = undefined;
+        },
+        onmessage: (message: LiveServerMessage) => {
+          if (!isCurrent()) return;
+          const update = message.sessionResumptionUpdate;
+          if (update?.resumable && update.newHandle) {
+            this.resumptionHandle = update.newHandle;
+          }
+          if (message.goAway) {
+            console.info(`Gemini Live going away in ${message.goAway.timeLeft ?? 'an unknown time'}, resuming early`);
+            this.scheduleReconnect(0);
+          }
+          this.options.onMessage(message);
+        },
+        onerror: (e: ErrorEvent) => {
+          if (!isCurrent()) return;
+          console.error('Gemini Live Error:', e);
+          this.lastError = e.message || 'A connection error occurred.';
+        },
+        onclose: (e: CloseEvent) => {
+          if (!opened) {
+            rejectOpen(new SessionClosedError(e.code, e.reason));
+            return;
+          }
+          if (!isCurrent()) return;
+          console.log('Gemini Live Closed', e.code, e.reason);
+          this.session = null;
+          if (FATAL_CLOSE_CODES.has(e.code)) {
+            this.fail(e.reason || 'The session was rejected by the server.');
+            return;
+          }
+          this.scheduleReconnect();
+        },
+      },
+    });
+
+    const session = await Promise.race([connecting, closedBeforeOpen]);
+    if (!isCurrent()) {
+      session.close();
+      return;
+    }
+    this.session = session;
+    this.setStatus('connected');
+  }
+
+  private scheduleReconnect(delayOverrideMs?: number) {
+    if (this.reconnectTimer || !this.active) return;
+
+    const {
+      maxReconnectAttempts = 6,
+      baseReconnectDelayMs = 500,
+      maxReconnectDelayMs = 15000,
+    } = this.options;
+
+    if (this.attempts >= maxReconnectAttempts) {
+      this.fail(this.lastError || 'The connection was lost and could not be restored.');
+      return;
+    }
+
+    const backoff = Math.min(maxReconnectDelayMs, baseReconnectDelayMs * 2 ** this.attempts);
+    const delay = delayOverrideMs ?? backoff * (0.75 + Math.random() * 0.5);
+    this.attempts++;
+    this.setStatus('reconnecting');
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      this.closeSession();
+      try {
+        await this.openSession();
+      } catch (err: any) {
+        if (!this.active) return;
+        console.error('Reconnect attempt failed:', err);
+        if (err instanceof SessionClosedError && err.isFatal) {
+          this.fail(err.message);
+          return;
+        }
+        this.lastError = err?.message;
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  private fail(error: string) {
+    this.active = false;
+    this.clearReconnectTimer();
+    this.closeSession();
+    this.setStatus('error', error);
+  }
+
+  private closeSession() {
+    const session = this.session;
+    this.session = null;
+    // Detach first so the close is not mistaken for a dropped connection
+    this.generation++;
+    session?.close();
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setStatus(status: ConnectionStatus, error?: string) {
+    if (this.status === status && !error) return;
+    this.status = status;
+    this.options.onStatusChange(status, error);
+  }
+}
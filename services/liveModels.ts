@@ -0,0 +1,26 @@
+// Shared by the client and the token server, which only issues tokens for these models
+export const AUDIO_MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
+// Native audio models only answer in audio, so text-only replies use the half-cascade model
+export const TEXT_MODEL_NAME = 'gemini-live-2.5-flash-preview';
+
+export interface LiveModel {
+  name: string;
+  label: string;
+  // Native audio models reason over audio directly; only they support affective dialog and proactive audio
+  nativeAudio: boolean;
+  // Whether the model can reply in text instead of speech
+  textReplies: boolean;
+}
+
+export const LIVE_MODELS: LiveModel[] = [
+  { name: AUDIO_MODEL_NAME, label: 'Gemini 2.5 Flash Native Audio', nativeAudio: true, textReplies: false },
+  { name: TEXT_MODEL_NAME, label: 'Gemini Live 2.5 Flash', nativeAudio: false, textReplies: true },
+];
+
+/** Looks up a known model, or infers the capabilities of a custom one from its name. */
+export function describeModel(name: string): LiveModel {
+  const known = LIVE_MODELS.find(model => model.name === name);
+  if (known) return known;
+  const nativeAudio = name.includes('native-audio');
+  return { name, label: name, nativeAudio, textReplies: !nativeAudio };
+}
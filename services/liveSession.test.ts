@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Modality, TranscriptionEntry } from '../types';
+import { DEFAULT_LANGUAGE_SETTINGS } from './languages';
+import { LiveMessageContext, buildLiveConfig, handleLiveMessage } from './liveSession';
+import { AUDIO_MODEL_NAME, TEXT_MODEL_NAME } from './liveModels';
+import { mockAudioChunk, mockInterrupted, mockOutputTranscript, mockTurnComplete, toneSamples } from './mockLiveTransport';
+import { DEFAULT_PERSONA } from './personaStore';
+import { PlaybackEngine } from './playbackEngine';
+import { DEFAULT_SESSION_SETTINGS } from './sessionSettings';
+import { ToolRegistry } from './toolRegistry';
+
+function createContext(suppressed = false) {
+  let transcript: TranscriptionEntry[] = [];
+  const playback = { enqueue: vi.fn(), flush: vi.fn() };
+  const context: LiveMessageContext = {
+    textOnly: false,
+    playback: playback as unknown as PlaybackEngine,
+    toolRegistry: new ToolRegistry(),
+    suppressReply: { current: suppressed },
+    updateTranscript: update => {
+      transcript = update(transcript);
+    },
+    sendToolResponse: vi.fn(),
+    onModelAudio: vi.fn(),
+    onInterrupted: vi.fn(),
+  };
+  return { context, playback, transcript: () => transcript };
+}
+
+describe('buildLiveConfig', () => {
+  const options = {
+    persona: DEFAULT_PERSONA,
+    responseModality: Modality.AUDIO,
+    language: DEFAULT_LANGUAGE_SETTINGS,
+    session: DEFAULT_SESSION_SETTINGS,
+    model: 'gemini-live-test',
+    voice: 'Puck',
+    serverActivityDetection: true,
+    tools: [],
+  };
+
+  it('appends extra instructions and speaks with the chosen voice', () => {
+    const config = buildLiveConfig({ ...options, extraInstructions: ['', 'REMEMBERED: likes tea'] });
+    expect(String(config.systemInstruction).endsWith('\n\nREMEMBERED: likes tea')).toBe(true);
+    expect(config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName).toBe('Puck');
+    expect(config.outputAudioTranscription).toEqual({});
+  });
+
+  it('sets the speech language only for half-cascade models', () => {
+    const language = { ...DEFAULT_LANGUAGE_SETTINGS, mode: 'locked' as const, primary: 'id' };
+    const nativeAudio = buildLiveConfig({ ...options, language, model: AUDIO_MODEL_NAME });
+    expect(nativeAudio.speechConfig?.languageCode).toBeUndefined();
+    expect(nativeAudio.systemInstruction).toContain('Indonesian');
+    const halfCascade = buildLiveConfig({ ...options, language, model: TEXT_MODEL_NAME });
+    expect(halfCascade.speechConfig?.languageCode).toBe('id-ID');
+  });
+
+  it('leaves out speech settings for text replies', () => {
+    const config = buildLiveConfig({ ...options, responseModality: Modality.TEXT });
+    expect(config.speechConfig).toBeUndefined();
+    expect(config.outputAudioTranscription).toBeUndefined();
+  });
+});
+
+describe('handleLiveMessage', () => {
+  it('plays and transcribes the reply', () => {
+    const { context, playback, transcript } = createContext();
+    handleLiveMessage(mockAudioChunk(toneSamples(220, 20)), context);
+    handleLiveMessage(mockOutputTranscript('Hello'), context);
+    expect(playback.enqueue).toHaveBeenCalledTimes(1);
+    expect(transcript()).toMatchObject([{ role: 'model', text: 'Hello', complete: false }]);
+  });
+
+  it('drops a suppressed reply until the turn ends, but still reports its audio', () => {
+    const { context, playback, transcript } = createContext(true);
+    handleLiveMessage(mockAudioChunk(toneSamples(220, 20)), context);
+    handleLiveMessage(mockOutputTranscript('Unheard'), context);
+    expect(playback.enqueue).not.toHaveBeenCalled();
+    expect(context.onModelAudio).toHaveBeenCalledTimes(1);
+    expect(transcript()).toEqual([]);
+
+    handleLiveMessage(mockTurnComplete(), context);
+    expect(context.suppressReply.current).toBe(false);
+    handleLiveMessage(mockOutputTranscript('Heard'), context);
+    expect(transcript()).toMatchObject([{ role: 'model', text: 'Heard' }]);
+  });
+
+  it('flushes playback and closes the turn when the server interrupts', () => {
+    const { context, playback, transcript } = createContext();
+    handleLiveMessage(mockOutputTranscript('Let me'), context);
+    handleLiveMessage(mockInterrupted(), context);
+    expect(playback.flush).toHaveBeenCalled();
+    expect(context.onInterrupted).toHaveBeenCalled();
+    expect(transcript()).toMatchObject([{ role: 'model', text: 'Let me', complete: true, interrupted: true }]);
+  });
+});
@@ -0,0 +1,125 @@
+import { FunctionResponse, LiveConnectConfig, LiveServerMessage, Tool } from '@google/genai';
+import { LanguageSettings, Modality, Persona, SessionSettings, TranscriptionEntry } from '../types';
+import { buildSystemInstruction } from './personaStore';
+import { buildLanguageInstruction, speechLanguageCode } from './languages';
+import { buildSessionConfig } from './sessionSettings';
+import { describeModel } from './liveModels';
+import { appendTranscript, completeTurns } from './transcript';
+import { PlaybackEngine } from './playbackEngine';
+import { ToolRegistry } from './toolRegistry';
+
+// Audio formats the Live API takes in and sends back
+export const SAMPLE_RATE_IN = 16000;
+export const SAMPLE_RATE_OUT = 24000;
+// Small capture frames keep the delay before the model hears the user low
+export const CAPTURE_FRAME_MS = 20;
+// Audio kept from before VAD onset so the first syllable is not clipped
+export const VAD_PRE_ROLL_MS = 300;
+
+export interface LiveConfigOptions {
+  persona: Persona;
+  responseModality: Modality;
+  language: LanguageSettings;
+  session: SessionSettings;
+  model: string;
+  // Ignored for text-only replies
+  voice: string | null;
+  // Off for push-to-talk and client VAD, which mark turns themselves
+  serverActivityDetection: boolean;
+  tools: Tool[];
+  // Appended to the system instruction, e.g. remembered context
+  extraInstructions?: string[];
+}
+
+/** The `config` a Vox session connects with, shared by the app and VoxClient. */
+export function buildLiveConfig(options: LiveConfigOptions): LiveConnectConfig {
+  const textOnly = options.responseModality === Modality.TEXT;
+  const systemInstruction = [
+    buildSystemInstruction(options.persona, options.responseModality),
+    buildLanguageInstruction(options.language),
+    ...(options.extraInstructions ?? []),
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    responseModalities: [options.responseModality],
+    speechConfig: textOnly ? undefined : {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voice ?? undefined } },
+      // Native audio models pick the language themselves, following the system instruction
+      languageCode: describeModel(options.model).nativeAudio ? undefined : speechLanguageCode(options.language),
+    },
+    systemInstruction,
+    inputAudioTranscription: {},
+    outputAudioTranscription: textOnly ? undefined : {},
+    tools: options.tools,
+    // Turn-taking, generation and compression
+    ...buildSessionConfig(options.session, options.model, { serverActivityDetection: options.serverActivityDetection }),
+  };
+}
+
+export interface LiveMessageContext {
+  textOnly: boolean;
+  playback: PlaybackEngine;
+  toolRegistry: ToolRegistry;
+  // Set by barge-in: the rest of the current reply is dropped until the model ends its turn
+  suppressReply: { current: boolean };
+  updateTranscript: (update: (entries: TranscriptionEntry[]) => TranscriptionEntry[]) => void;
+  sendToolResponse: (functionResponses: FunctionResponse[]) => void;
+  // Observers for metrics and recording. Audio is reported even while the reply is suppressed.
+  onModelText?: (text: string) => void;
+  onModelAudio?: (data: string) => void;
+  onInterrupted?: () => void;
+  onTurnComplete?: () => void;
+}
+
+/** Applies one server message to the transcript, playback and tools. */
+export function handleLiveMessage(message: LiveServerMessage, context: LiveMessageContext) {
+  const { suppressReply } = context;
+  const content = message.serverContent;
+
+  const inputText = content?.inputTranscription?.text;
+  if (inputText) {
+    context.updateTranscript(prev => appendTranscript(prev, 'user', inputText));
+  }
+  const outputText = content?.outputTranscription?.text;
+  if (outputText && !suppressReply.current) {
+    context.updateTranscript(prev => appendTranscript(prev, 'model', outputText));
+  }
+  // Text-only replies stream as text parts instead of audio with a transcript
+  if (context.textOnly) {
+    const replyText = content?.modelTurn?.parts
+      ?.filter(part => part.text && !part.thought)
+      .map(part => part.text)
+      .join('');
+    if (replyText && !suppressReply.current) {
+      context.onModelText?.(replyText);
+      context.updateTranscript(prev => appendTranscript(prev, 'model', replyText));
+    }
+  }
+
+  const audioData = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+  if (audioData) {
+    context.onModelAudio?.(audioData);
+    if (!suppressReply.current) context.playback.enqueue(audioData);
+  }
+
+  if (content?.interrupted) {
+    suppressReply.current = false;
+    context.playback.flush();
+    context.onInterrupted?.();
+    context.updateTranscript(prev => completeTurns(prev, { interrupted: true }));
+  }
+  if (content?.turnComplete) {
+    suppressReply.current = false;
+    context.onTurnComplete?.();
+    context.updateTranscript(prev => completeTurns(prev));
+  }
+
+  if (message.toolCall) {
+    context.toolRegistry.handleToolCall(message.toolCall).then(functionResponses => {
+      if (functionResponses.length > 0) context.sendToolResponse(functionResponses);
+    });
+  }
+  if (message.toolCallCancellation?.ids) {
+    context.toolRegistry.cancel(message.toolCallCancellation.ids);
+  }
+}
@@ -0,0 +1,49 @@
+import {
+  GoogleGenAI,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import { Modality } from '../types';
+import { fetchLiveToken, LIVE_TOKEN_ENDPOINT } from './liveAuth';
+
+/** The parts of a Live session Vox uses; satisfied by the SDK's `Session`. */
+export interface LiveSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/**
+ * Opens Live sessions. The Gemini implementation talks to the real API; the
+ * mock transport replays scripted server messages for tests and offline demos.
+ */
+export interface LiveTransport {
+  connect(params: LiveConnectParameters): Promise<LiveSession>;
+}
+
+export function createGenAITransport(ai: GoogleGenAI): LiveTransport {
+  return {
+    connect: (params) => ai.live.connect(params),
+  };
+}
+
+/**
+ * Fetches a fresh single-use token for every connection, including reconnects,
+ * and opens the session with it in place of an API key.
+ */
+export function createEphemeralTokenTransport(endpoint = LIVE_TOKEN_ENDPOINT): LiveTransport {
+  return {
+    connect: async (params) => {
+      const { token } = await fetchLiveToken({
+        model: params.model,
+        responseModalities: (params.config?.responseModalities ?? [Modality.AUDIO]) as Modality[],
+      }, endpoint);
+      // Ephemeral tokens are only accepted by the v1alpha API
+      const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+      return createGenAITransport(ai).connect(params);
+    },
+  };
+}
@@ -0,0 +1,87 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Memory, MemoryTurn } from '../types';
+import { buildMemoryContext, localSummary, selectMemories, summarizeConversation } from './memory';
+
+const turns: MemoryTurn[] = [
+  { role: 'user', text: 'Hi' },
+  { role: 'model', text: 'Hello! How can I help?' },
+  { role: 'user', text: 'I am planning a trip to Kyoto in April.' },
+  { role: 'model', text: 'Lovely, cherry blossom season.' },
+];
+
+const memory = (id: string, createdAt: number, pinned = false, personaId = 'p'): Memory => ({
+  id,
+  createdAt,
+  personaId,
+  summary: `- Summary ${id}`,
+  turns: [],
+  pinned,
+});
+
+let server: Server | null = null;
+
+async function startStandIn(status: number, body: unknown) {
+  server = createServer((_req, res) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/summarize`;
+}
+
+afterEach(async () => {
+  if (server) await new Promise(resolve => server!.close(resolve));
+  server = null;
+  vi.restoreAllMocks();
+});
+
+describe('localSummary', () => {
+  it('keeps what the user said, skipping one-word turns', () => {
+    expect(localSummary(turns)).toBe('- The user said: "I am planning a trip to Kyoto in April."');
+  });
+
+  it('clips long turns', () => {
+    const summary = localSummary([{ role: 'user', text: 'word '.repeat(100).trim() }]);
+    expect(summary.length).toBeLessThan(200);
+    expect(summary.endsWith('…"')).toBe(true);
+  });
+});
+
+describe('selectMemories', () => {
+  it('puts pinned memories first, then the most recent others', () => {
+    const selected = selectMemories([memory('a', 1, true), memory('b', 2), memory('c', 3), memory('d', 4)], 'p', 2);
+    expect(selected.map(m => m.id)).toEqual(['a', 'd', 'c']);
+  });
+
+  it('only shares memories made with the same persona', () => {
+    const selected = selectMemories([memory('a', 1, true, 'work'), memory('b', 2, false, 'work'), memory('c', 3)], 'p');
+    expect(selected.map(m => m.id)).toEqual(['c']);
+  });
+});
+
+describe('buildMemoryContext', () => {
+  it('is empty without memories', () => {
+    expect(buildMemoryContext([])).toBe('');
+  });
+
+  it('stops adding memories once the budget is reached', () => {
+    const context = buildMemoryContext([memory('a', 0, true), memory('b', 0)], 190);
+    expect(context).toContain('(pinned by the user):\n- Summary a');
+    expect(context).not.toContain('Summary b');
+  });
+});
+
+describe('summarizeConversation', () => {
+  it('uses the server summary', async () => {
+    const endpoint = await startStandIn(200, { summary: '- Trip to Kyoto in April\n' });
+    expect(await summarizeConversation(turns, { useServer: true, endpoint })).toBe('- Trip to Kyoto in April');
+  });
+
+  it('falls back to the local summary when the server fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const endpoint = await startStandIn(502, { error: 'Could not summarise the session.' });
+    expect(await summarizeConversation(turns, { useServer: true, endpoint })).toBe(localSummary(turns));
+  });
+});
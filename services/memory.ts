@@ -0,0 +1,98 @@
+import { Memory, MemoryTurn, SummaryRequest, TranscriptionEntry } from '../types';
+
+// Served by the token server in server/, alongside the token endpoint
+export const SUMMARY_ENDPOINT = '/api/summarize';
+
+// Unpinned memories given to the model; pinned ones always are
+const RECENT_MEMORY_COUNT = 3;
+// Keeps the injected context well under the system instruction budget
+const MEMORY_CONTEXT_MAX_CHARS = 2000;
+const LOCAL_SUMMARY_MAX_POINTS = 5;
+const LOCAL_SUMMARY_MAX_POINT_CHARS = 160;
+
+export function toMemoryTurns(entries: TranscriptionEntry[]): MemoryTurn[] {
+  return entries
+    .map(entry => ({ role: entry.role, text: entry.text.trim() }))
+    .filter(turn => turn.text);
+}
+
+/** Whether a session said enough to be worth remembering. */
+export function isMemorable(turns: MemoryTurn[]): boolean {
+  return turns.some(turn => turn.role === 'user') && turns.some(turn => turn.role === 'model');
+}
+
+const clip = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+/**
+ * Offline stand-in for the model summary: keeps what the user said, since
+ * that is what they would otherwise have to repeat next time.
+ */
+export function localSummary(turns: MemoryTurn[]): string {
+  const userTurns = turns.filter(turn => turn.role === 'user' && turn.text.split(/\s+/).length >= 3);
+  const points = (userTurns.length > 0 ? userTurns : turns.filter(turn => turn.role === 'user'))
+    .slice(-LOCAL_SUMMARY_MAX_POINTS)
+    .map(turn => `- The user said: "${clip(turn.text, LOCAL_SUMMARY_MAX_POINT_CHARS)}"`);
+  return points.join('\n');
+}
+
+/** Summarises through the token server, falling back to the local summary if it is unavailable. */
+export async function summarizeConversation(
+  turns: MemoryTurn[],
+  options: { useServer: boolean; endpoint?: string },
+): Promise<string> {
+  if (options.useServer) {
+    try {
+      const body: SummaryRequest = { turns };
+      const response = await fetch(options.endpoint ?? SUMMARY_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const result = await response.json().catch(() => null);
+      if (response.ok && typeof result?.summary === 'string' && result.summary.trim()) {
+        return result.summary.trim();
+      }
+      console.warn('Summary service unavailable, summarising locally:', result?.error ?? response.status);
+    } catch (err) {
+      console.warn('Summary service unavailable, summarising locally:', err);
+    }
+  }
+  return localSummary(turns);
+}
+
+export function createMemory(personaId: string, turns: MemoryTurn[], summary: string): Memory {
+  return {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    personaId,
+    summary,
+    turns,
+    pinned: false,
+  };
+}
+
+/**
+ * The persona's own memories: pinned ones first, then the most recent others;
+ * newest first within each. Other personas' conversations are never shared.
+ */
+export function selectMemories(memories: Memory[], personaId: string, recentCount = RECENT_MEMORY_COUNT): Memory[] {
+  const sorted = memories.filter(memory => memory.personaId === personaId).sort((a, b) => b.createdAt - a.createdAt);
+  return [
+    ...sorted.filter(memory => memory.pinned),
+    ...sorted.filter(memory => !memory.pinned).slice(0, recentCount),
+  ];
+}
+
+/** System instruction section for the selected memories, or an empty string when there are none. */
+export function buildMemoryContext(memories: Memory[], maxChars = MEMORY_CONTEXT_MAX_CHARS): string {
+  const header = `WHAT YOU REMEMBER FROM EARLIER CONVERSATIONS:
+- Use this to avoid asking the user to repeat themselves. Do not recite it unprompted.`;
+  let context = header;
+  for (const memory of memories) {
+    const date = new Date(memory.createdAt).toISOString().slice(0, 10);
+    const section = `\n\nFrom ${date}${memory.pinned ? ' (pinned by the user)' : ''}:\n${memory.summary}`;
+    if (context.length + section.length > maxChars) break;
+    context += section;
+  }
+  return context === header ? '' : context;
+}
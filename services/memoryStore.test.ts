@@ -0,0 +1,24 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadMemoryEnabled, saveMemoryEnabled } from './memoryStore';
+
+beforeEach(() => {
+  const values = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => values.set(key, value),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('memory setting', () => {
+  it('is off until the user turns it on', () => {
+    expect(loadMemoryEnabled()).toBe(false);
+    saveMemoryEnabled(true);
+    expect(loadMemoryEnabled()).toBe(true);
+    saveMemoryEnabled(false);
+    expect(loadMemoryEnabled()).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import { Memory } from '../types';
+
+const DB_NAME = 'vox';
+const DB_VERSION = 1;
+const MEMORY_STORE = 'memories';
+const MEMORY_ENABLED_STORAGE_KEY = 'vox.memoryEnabled';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(MEMORY_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch(err => {
+    // Let the next call retry, e.g. after the user leaves private browsing
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(MEMORY_STORE, mode);
+    const request = run(transaction.objectStore(MEMORY_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** All memories, newest first. */
+export async function listMemories(): Promise<Memory[]> {
+  const memories = await withStore<Memory[]>('readonly', store => store.getAll());
+  return memories.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function putMemory(memory: Memory) {
+  await withStore('readwrite', store => store.put(memory));
+}
+
+export async function deleteMemory(id: string) {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function clearMemories() {
+  await withStore('readwrite', store => store.clear());
+}
+
+// Off until the user turns it on, since ended conversations are sent to the server to be summarised
+export function loadMemoryEnabled(): boolean {
+  return localStorage.getItem(MEMORY_ENABLED_STORAGE_KEY) === 'true';
+}
+
+export function saveMemoryEnabled(enabled: boolean) {
+  localStorage.setItem(MEMORY_ENABLED_STORAGE_KEY, String(enabled));
+}
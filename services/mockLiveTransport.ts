@@ -0,0 +1,220 @@
+import {
+  FunctionCall,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { createPcmBlob } from './audioUtils';
+import { LiveSession, LiveTransport } from './liveTransport';
+
+const MOCK_OUTPUT_SAMPLE_RATE = 24000;
+
+export type MockClientEvent =
+  | { type: 'realtimeInput'; params: LiveSendRealtimeInputParameters }
+  | { type: 'clientContent'; params: LiveSendClientContentParameters }
+  | { type: 'toolResponse'; params: LiveSendToolResponseParameters }
+  | { type: 'close' };
+
+export type MockLiveStep =
+  | { kind: 'message'; message: LiveServerMessage; delayMs?: number }
+  // Pauses the script until the client sends a matching event
+  | { kind: 'waitFor'; event: MockClientEvent['type']; match?: (event: MockClientEvent) => boolean }
+  | { kind: 'error'; message: string; delayMs?: number }
+  | { kind: 'close'; code?: number; reason?: string; delayMs?: number };
+
+export interface MockLiveScript {
+  // Closes the socket before it opens, as the server does for a rejected setup
+  rejectWith?: { code: number; reason: string };
+  steps: MockLiveStep[];
+}
+
+const delay = (ms = 0) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Node has no CloseEvent/ErrorEvent, and the callbacks only read these fields
+const closeEvent = (code: number, reason: string) => ({ code, reason }) as CloseEvent;
+const errorEvent = (message: string) => ({ message }) as ErrorEvent;
+
+/**
+ * A scripted stand-in for one Live session. Records everything the client
+ * sends so tests can assert on it, and replays the script's server messages
+ * through the same callbacks the SDK would call.
+ */
+export class MockLiveSession implements LiveSession {
+  readonly sent: MockClientEvent[] = [];
+  private closed = false;
+  private consumed = 0;
+  private notify: (() => void) | null = null;
+
+  constructor(readonly params: LiveConnectParameters, private readonly script: MockLiveScript) {}
+
+  get isClosed() {
+    return this.closed;
+  }
+
+  async open(): Promise<this> {
+    await delay();
+    if (this.script.rejectWith) {
+      this.closed = true;
+      this.params.callbacks.onclose?.(closeEvent(this.script.rejectWith.code, this.script.rejectWith.reason));
+      // Like the SDK, a connection that never opens never resolves
+      return new Promise<this>(() => {});
+    }
+    this.params.callbacks.onopen?.();
+    void this.run();
+    return this;
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    this.record({ type: 'realtimeInput', params });
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    this.record({ type: 'clientContent', params });
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    this.record({ type: 'toolResponse', params });
+  }
+
+  close() {
+    if (this.closed) return;
+    this.record({ type: 'close' });
+    this.closed = true;
+    this.notify?.();
+    setTimeout(() => this.params.callbacks.onclose?.(closeEvent(1000, '')), 0);
+  }
+
+  /** Simulates the server dropping the connection. */
+  drop(code = 1006, reason = '') {
+    if (this.closed) return;
+    this.closed = true;
+    this.notify?.();
+    this.params.callbacks.onclose?.(closeEvent(code, reason));
+  }
+
+  private record(event: MockClientEvent) {
+    if (this.closed) return;
+    this.sent.push(event);
+    this.notify?.();
+  }
+
+  private async waitFor(step: Extract<MockLiveStep, { kind: 'waitFor' }>) {
+    while (!this.closed) {
+      const index = this.sent.findIndex((event, i) =>
+        i >= this.consumed && event.type === step.event && (!step.match || step.match(event)));
+      if (index >= 0) {
+        this.consumed = index + 1;
+        return;
+      }
+      await new Promise<void>(resolve => {
+        this.notify = resolve;
+      });
+      this.notify = null;
+    }
+  }
+
+  private async run() {
+    for (const step of this.script.steps) {
+      if (this.closed) return;
+      if (step.kind === 'waitFor') {
+        await this.waitFor(step);
+        continue;
+      }
+
+      await delay(step.delayMs);
+      if (this.closed) return;
+
+      switch (step.kind) {
+        case 'message':
+          this.params.callbacks.onmessage(step.message);
+          break;
+        case 'error':
+          this.params.callbacks.onerror?.(errorEvent(step.message));
+          break;
+        case 'close':
+          this.drop(step.code, step.reason);
+          return;
+      }
+    }
+  }
+}
+
+/**
+ * Hands out scripted sessions in order: the nth connection plays the nth
+ * script, and the last script is reused once they run out.
+ */
+export class MockLiveTransport implements LiveTransport {
+  readonly sessions: MockLiveSession[] = [];
+
+  constructor(private readonly scripts: MockLiveScript[]) {}
+
+  connect(params: LiveConnectParameters): Promise<LiveSession> {
+    const script = this.scripts[Math.min(this.sessions.length, this.scripts.length - 1)] ?? { steps: [] };
+    const session = new MockLiveSession(params, script);
+    this.sessions.push(session);
+    return session.open();
+  }
+}
+
+export function mockMessage(fields: Partial<LiveServerMessage>): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), fields);
+}
+
+export function toneSamples(frequency: number, durationMs: number, sampleRate = MOCK_OUTPUT_SAMPLE_RATE, amplitude = 0.2) {
+  const samples = new Float32Array(Math.round(sampleRate * durationMs / 1000));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate);
+  }
+  return samples;
+}
+
+export function mockAudioChunk(samples: Float32Array, sampleRate = MOCK_OUTPUT_SAMPLE_RATE): LiveServerMessage {
+  return mockMessage({ serverContent: { modelTurn: { role: 'model', parts: [{ inlineData: createPcmBlob(samples, sampleRate) }] } } });
+}
+
+export const mockInputTranscript = (text: string) => mockMessage({ serverContent: { inputTranscription: { text } } });
+export const mockOutputTranscript = (text: string) => mockMessage({ serverContent: { outputTranscription: { text } } });
+export const mockInterrupted = () => mockMessage({ serverContent: { interrupted: true } });
+export const mockTurnComplete = () => mockMessage({ serverContent: { turnComplete: true } });
+export const mockToolCall = (functionCalls: FunctionCall[]) => mockMessage({ toolCall: { functionCalls } });
+export const mockToolCallCancellation = (ids: string[]) => mockMessage({ toolCallCancellation: { ids } });
+export const mockGoAway = (timeLeft = '10s') => mockMessage({ goAway: { timeLeft } });
+export const mockResumptionUpdate = (newHandle: string) =>
+  mockMessage({ sessionResumptionUpdate: { newHandle, resumable: true } });
+
+/** Spoken reply made of short tone chunks, with its output transcript. */
+export function mockSpokenReply(text: string, chunks = 5, chunkMs = 200): MockLiveStep[] {
+  const words = text.split(' ');
+  const perChunk = Math.ceil(words.length / chunks);
+  return Array.from({ length: chunks }, (_, i): MockLiveStep[] => {
+    const fragment = words.slice(i * perChunk, (i + 1) * perChunk).join(' ');
+    const audio: MockLiveStep = { kind: 'message', message: mockAudioChunk(toneSamples(220 + i * 20, chunkMs)), delayMs: chunkMs * 0.8 };
+    return fragment
+      ? [audio, { kind: 'message', message: mockOutputTranscript(i ? ` ${fragment}` : fragment) }]
+      : [audio];
+  }).flat();
+}
+
+/**
+ * Offline demo used by `?mock`: greets the user once they start talking,
+ * then exercises a tool call round trip and an interruption.
+ */
+export function demoScript(): MockLiveScript {
+  return {
+    steps: [
+      { kind: 'message', message: mockResumptionUpdate('mock-handle-1') },
+      { kind: 'waitFor', event: 'realtimeInput' },
+      { kind: 'message', message: mockInputTranscript('Hello Vox, what time is it?'), delayMs: 800 },
+      { kind: 'message', message: mockToolCall([{ id: 'mock-call-1', name: 'get_current_time', args: {} }]), delayMs: 200 },
+      { kind: 'waitFor', event: 'toolResponse' },
+      ...mockSpokenReply('Hi there, this is a scripted reply from the mock Live server.'),
+      { kind: 'message', message: mockTurnComplete() },
+      { kind: 'message', message: mockInputTranscript('Tell me something long.'), delayMs: 1500 },
+      ...mockSpokenReply('Sure, here is a reply that will be cut off part way through.', 8),
+      { kind: 'message', message: mockInterrupted(), delayMs: 100 },
+      { kind: 'message', message: mockTurnComplete() },
+    ],
+  };
+}
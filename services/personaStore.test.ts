@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Modality } from '../types';
+import { DEFAULT_INSTRUCTIONS, DEFAULT_PERSONA, buildSystemInstruction, loadPersonas, parsePersona } from './personaStore';
+
+const values = new Map<string, string>();
+
+beforeEach(() => {
+  values.clear();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => values.set(key, value),
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('loadPersonas', () => {
+  it('keeps the valid personas when one saved entry is broken', () => {
+    values.set('vox.personas', JSON.stringify([
+      { id: 'a', name: 'Helpdesk', instructions: 'Answer IT questions.' },
+      { id: 'b', instructions: 'Missing its name.' },
+      { id: 'c', name: 'Coach', instructions: 'Encourage the user.' },
+    ]));
+    expect(loadPersonas().map(persona => persona.id)).toEqual(['a', 'c']);
+  });
+
+  it('falls back to the default persona when nothing valid is left', () => {
+    values.set('vox.personas', JSON.stringify([{ id: 'b' }]));
+    expect(loadPersonas()).toEqual([DEFAULT_PERSONA]);
+    values.set('vox.personas', 'not json');
+    expect(loadPersonas()).toEqual([DEFAULT_PERSONA]);
+  });
+});
+
+describe('buildSystemInstruction', () => {
+  it('states a response length only once, from the persona preference', () => {
+    const instruction = buildSystemInstruction({ ...DEFAULT_PERSONA, responseLength: 'detailed' });
+    expect(instruction).toContain('up to six sentences');
+    expect(instruction).not.toContain('One to three');
+    expect(instruction.match(/RESPONSE LENGTH/g)).toHaveLength(1);
+  });
+
+  it('overrides the voice-only rules for text-only sessions', () => {
+    expect(buildSystemInstruction(DEFAULT_PERSONA)).not.toContain('REPLY FORMAT');
+    const instruction = buildSystemInstruction(DEFAULT_PERSONA, Modality.TEXT);
+    expect(instruction.startsWith(DEFAULT_INSTRUCTIONS)).toBe(true);
+    expect(instruction.trimEnd().endsWith('read it as "written".')).toBe(true);
+    expect(instruction).toContain('OVERRIDES ANY VOICE-ONLY RULES ABOVE');
+  });
+
+  it('drops the fixed length rule from personas saved with the old default instructions', () => {
+    const saved = `${DEFAULT_INSTRUCTIONS}\n\nDEFAULT RESPONSE LENGTH:\n- One to three spoken sentences.`;
+    expect(parsePersona({ name: 'Vox', instructions: saved }).instructions).toBe(DEFAULT_INSTRUCTIONS);
+  });
+});
@@ -0,0 +1,176 @@
+import { Modality, Persona, ResponseLength } from '../types';
+
+const PERSONAS_STORAGE_KEY = 'vox.personas';
+const ACTIVE_PERSONA_STORAGE_KEY = 'vox.activePersonaId';
+const EXPORT_VERSION = 1;
+
+export const PREBUILT_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const RESPONSE_LENGTHS: { value: ResponseLength; label: string }[] = [
+  { value: 'brief', label: 'Brief' },
+  { value: 'balanced', label: 'Balanced' },
+  { value: 'detailed', label: 'Detailed' },
+];
+
+const RESPONSE_LENGTH_RULES: Record<ResponseLength, string> = {
+  brief: 'Keep every answer to one short spoken sentence unless the user asks for more.',
+  balanced: 'Answer in one to three spoken sentences.',
+  detailed: 'Give thorough spoken answers of up to six sentences, still without any formatting.',
+};
+
+export const DEFAULT_INSTRUCTIONS = `You are a voice-only conversational AI assistant.
+CORE RULES (ABSOLUTE):
+1. You MUST communicate ONLY through spoken language.
+2. You MUST NEVER output text, markdown, bullet points, lists, emojis, symbols, or formatting of any kind.
+3. Your responses are intended to be converted directly into audio.
+4. Speak naturally, as a human would in a real conversation.
+5. If a response sounds like writing, rephrase it into spoken language.
+
+VOICE & DELIVERY STYLE:
+- Speak in a calm, warm, clear, and confident voice.
+- Use natural conversational rhythm, including short pauses.
+- Keep sentences concise and easy to follow.
+
+LANGUAGE HANDLING:
+- Match the user’s spoken language automatically.
+- If the user speaks Malay, respond in Malay.
+- If the user speaks English, respond in English.
+- If the user mixes languages, respond naturally using the same mix.`;
+
+// Earlier defaults fixed the length here, contradicting the persona's own length preference
+const LEGACY_LENGTH_SECTION = `
+
+DEFAULT RESPONSE LENGTH:
+- One to three spoken sentences.`;
+
+export const DEFAULT_PERSONA: Persona = {
+  id: 'default',
+  name: 'Vox',
+  instructions: DEFAULT_INSTRUCTIONS,
+  voice: 'Kore',
+  languageHint: '',
+  responseLength: 'balanced',
+};
+
+export function createPersona(overrides: Partial<Persona> = {}): Persona {
+  return {
+    ...DEFAULT_PERSONA,
+    name: 'New Persona',
+    ...overrides,
+    id: crypto.randomUUID(),
+  };
+}
+
+// Persona instructions are written for speech; text-only sessions need that lifted explicitly
+const TEXT_REPLY_OVERRIDE = `REPLY FORMAT (OVERRIDES ANY VOICE-ONLY RULES ABOVE):
+- This session replies in text, not audio. Your replies are shown on screen and are not spoken aloud.
+- Write plain, readable text. Short paragraphs and simple lists are fine when they help.
+- Where other instructions say "spoken", read it as "written".`;
+
+/**
+ * Appends the persona's language and length preferences to its instructions,
+ * producing the `systemInstruction` sent when the session opens. Text-only
+ * sessions also get a section overriding the voice-only delivery rules.
+ */
+export function buildSystemInstruction(persona: Persona, modality: Modality = Modality.AUDIO): string {
+  const sections = [persona.instructions.trim()];
+  if (persona.languageHint.trim()) {
+    sections.push(`PREFERRED LANGUAGE:
+- Respond in ${persona.languageHint.trim()} unless the user clearly asks for another language.`);
+  }
+  sections.push(`RESPONSE LENGTH PREFERENCE:
+- ${RESPONSE_LENGTH_RULES[persona.responseLength]}`);
+  if (modality === Modality.TEXT) sections.push(TEXT_REPLY_OVERRIDE);
+  return sections.join('\n\n');
+}
+
+function isResponseLength(value: unknown): value is ResponseLength {
+  return RESPONSE_LENGTHS.some(option => option.value === value);
+}
+
+export function parsePersona(value: any, index = 0): Persona {
+  if (!value || typeof value !== 'object') {
+    throw new Error(`Persona ${index + 1} is not an object.`);
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    throw new Error(`Persona ${index + 1} is missing a name.`);
+  }
+  if (typeof value.instructions !== 'string') {
+    throw new Error(`Persona "${value.name}" is missing instructions.`);
+  }
+  const instructions = value.instructions.endsWith(LEGACY_LENGTH_SECTION)
+    ? value.instructions.slice(0, -LEGACY_LENGTH_SECTION.length)
+    : value.instructions;
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID(),
+    name: value.name.trim(),
+    instructions,
+    voice: PREBUILT_VOICES.includes(value.voice) ? value.voice : DEFAULT_PERSONA.voice,
+    languageHint: typeof value.languageHint === 'string' ? value.languageHint : '',
+    responseLength: isResponseLength(value.responseLength) ? value.responseLength : DEFAULT_PERSONA.responseLength,
+  };
+}
+
+export function loadPersonas(): Persona[] {
+  try {
+    const raw = localStorage.getItem(PERSONAS_STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(stored)) {
+      // Drop only the entries that no longer parse, so one bad persona cannot wipe the library on the next save
+      const personas = stored.flatMap((value, index) => {
+        try {
+          return [parsePersona(value, index)];
+        } catch (err) {
+          console.warn('Ignoring an unreadable saved persona:', err);
+          return [];
+        }
+      });
+      if (personas.length > 0) return personas;
+    }
+  } catch (err) {
+    console.warn('Ignoring unreadable saved personas:', err);
+  }
+  return [DEFAULT_PERSONA];
+}
+
+export function savePersonas(personas: Persona[]) {
+  localStorage.setItem(PERSONAS_STORAGE_KEY, JSON.stringify(personas));
+}
+
+export function loadActivePersonaId(): string | null {
+  return localStorage.getItem(ACTIVE_PERSONA_STORAGE_KEY);
+}
+
+export function saveActivePersonaId(id: string) {
+  localStorage.setItem(ACTIVE_PERSONA_STORAGE_KEY, id);
+}
+
+export function exportPersonas(personas: Persona[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, personas }, null, 2);
+}
+
+/**
+ * Parses an export file (or a bare array of personas). Throws with a readable
+ * message when the file does not contain valid personas.
+ */
+export function importPersonas(json: string): Persona[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const list = Array.isArray(data) ? data : data?.personas;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new Error('The file does not contain any personas.');
+  }
+  return list.map(parsePersona);
+}
+
+/** Adds imported personas, replacing existing ones that share an id. */
+export function mergePersonas(existing: Persona[], imported: Persona[]): Persona[] {
+  const importedById = new Map(imported.map(persona => [persona.id, persona]));
+  const merged = existing.map(persona => importedById.get(persona.id) ?? persona);
+  const existingIds = new Set(existing.map(persona => persona.id));
+  return [...merged, ...imported.filter(persona => !existingIds.has(persona.id))];
+}
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPcmBlob } from './audioUtils';
+import { PlaybackEngine, ScheduledChunk } from './playbackEngine';
+
+const SAMPLE_RATE = 24000;
+
+class FakeParam {
+  value = 1;
+  cancelScheduledValues = vi.fn();
+  setValueAtTime = vi.fn();
+  linearRampToValueAtTime = vi.fn();
+}
+
+class FakeSource {
+  buffer: AudioBuffer | null = null;
+  startedAt: number | null = null;
+  stoppedAt: number | null = null;
+  private endedListener: (() => void) | null = null;
+  connect() {}
+  start(when: number) {
+    this.startedAt = when;
+  }
+  stop(when = 0) {
+    this.stoppedAt = when;
+  }
+  addEventListener(_type: 'ended', listener: () => void) {
+    this.endedListener = listener;
+  }
+  end() {
+    this.endedListener?.();
+  }
+}
+
+// Just enough of AudioContext for the engine: time only moves when a test says so
+class FakeAudioContext {
+  currentTime = 0;
+  sources: FakeSource[] = [];
+  createGain() {
+    return { gain: new FakeParam(), connect() {}, disconnect() {} };
+  }
+  createBufferSource() {
+    const source = new FakeSource();
+    this.sources.push(source);
+    return source;
+  }
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    const data = new Float32Array(length);
+    return { length, sampleRate, duration: length / sampleRate, getChannelData: () => data };
+  }
+}
+
+const chunk = (ms: number) => createPcmBlob(new Float32Array(SAMPLE_RATE * ms / 1000), SAMPLE_RATE).data!;
+
+let ctx: FakeAudioContext;
+let engine: PlaybackEngine;
+let speaking: boolean[];
+let scheduled: ScheduledChunk[];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  ctx = new FakeAudioContext();
+  engine = new PlaybackEngine(ctx as unknown as AudioContext, {} as AudioNode, {
+    sampleRate: SAMPLE_RATE,
+    initialPrerollMs: 100,
+    minPrerollMs: 50,
+    maxPrerollMs: 400,
+  });
+  speaking = [];
+  scheduled = [];
+  engine.onSpeakingChange = value => speaking.push(value);
+  engine.onChunkScheduled = info => scheduled.push(info);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('PlaybackEngine', () => {
+  it('holds audio until the pre-roll is buffered, then plays it gaplessly', async () => {
+    await engine.enqueue(chunk(40));
+    await engine.enqueue(chunk(40));
+    expect(ctx.sources).toHaveLength(0);
+
+    await engine.enqueue(chunk(40));
+
+    expect(speaking).toEqual([true]);
+    const starts = ctx.sources.map(source => source.startedAt!);
+    expect(starts[0]).toBeCloseTo(0.02);
+    expect(starts[1]).toBeCloseTo(0.06);
+    expect(starts[2]).toBeCloseTo(0.1);
+
+    await engine.enqueue(chunk(40));
+    expect(ctx.sources[3].startedAt).toBeCloseTo(0.14);
+  });
+
+  it('starts a short reply once the pre-roll time passes', async () => {
+    await engine.enqueue(chunk(30));
+    expect(ctx.sources).toHaveLength(0);
+
+    vi.advanceTimersByTime(100);
+
+    expect(ctx.sources).toHaveLength(1);
+    expect(speaking).toEqual([true]);
+  });
+
+  it('re-buffers with a longer pre-roll after an underrun', async () => {
+    for (let i = 0; i < 3; i++) await engine.enqueue(chunk(40));
+    ctx.currentTime = 0.5;
+
+    await engine.enqueue(chunk(40));
+
+    expect(engine.currentPrerollMs).toBe(150);
+    expect(ctx.sources).toHaveLength(3);
+    expect(scheduled).toHaveLength(3);
+
+    vi.advanceTimersByTime(150);
+    expect(ctx.sources[3].startedAt).toBeCloseTo(0.52);
+    expect(scheduled[3].queueAheadSeconds).toBeLessThan(0);
+    // A stall inside a reply does not count as the model finishing
+    expect(speaking).toEqual([true]);
+  });
+
+  it('treats audio arriving during the idle grace period as an underrun', async () => {
+    for (let i = 0; i < 3; i++) await engine.enqueue(chunk(40));
+    ctx.currentTime = 0.2;
+    ctx.sources.forEach(source => source.end());
+    vi.advanceTimersByTime(100);
+
+    await engine.enqueue(chunk(40));
+
+    expect(engine.currentPrerollMs).toBe(150);
+    expect(speaking).toEqual([true]);
+  });
+
+  it('reports the end of speech once the queue stays empty', async () => {
+    for (let i = 0; i < 3; i++) await engine.enqueue(chunk(40));
+    ctx.sources.forEach(source => source.end());
+
+    vi.advanceTimersByTime(250);
+
+    expect(speaking).toEqual([true, false]);
+    // A smooth reply relaxes the pre-roll again
+    expect(engine.currentPrerollMs).toBe(85);
+  });
+
+  it('fades out and drops queued audio on flush', async () => {
+    for (let i = 0; i < 3; i++) await engine.enqueue(chunk(40));
+    const decoding = engine.enqueue(chunk(40));
+
+    engine.flush();
+    await decoding;
+
+    expect(ctx.sources).toHaveLength(3);
+    ctx.sources.forEach(source => expect(source.stoppedAt).toBeCloseTo(0.04));
+    expect(speaking).toEqual([true, false]);
+
+    // Late 'ended' events from the flushed reply do not end the next one
+    await engine.enqueue(chunk(120));
+    ctx.sources.slice(0, 3).forEach(source => source.end());
+    vi.advanceTimersByTime(1000);
+    expect(speaking).toEqual([true, false, true]);
+  });
+});
@@ -0,0 +1,269 @@
+import { decode, decodeAudioData } from './audioUtils';
+
+export interface PlaybackEngineOptions {
+  sampleRate: number;
+  // Audio buffered before playback (re)starts; grows after underruns and relaxes after smooth replies.
+  initialPrerollMs?: number;
+  minPrerollMs?: number;
+  maxPrerollMs?: number;
+  // Ramp applied where audio starts or stops mid-stream, so gaps do not click.
+  crossfadeMs?: number;
+  // Fade applied when playback is flushed on an interruption.
+  fadeOutMs?: number;
+  // How long the queue may sit empty before speech counts as finished.
+  idleGraceMs?: number;
+}
+
+export interface ScheduledChunk {
+  samples: Float32Array;
+  // AudioContext time the chunk starts playing.
+  startTime: number;
+  // Audio queued ahead of the playhead when the chunk arrived; negative once the queue had drained.
+  queueAheadSeconds: number;
+}
+
+interface PendingChunk {
+  buffer: AudioBuffer;
+  queueAheadSeconds: number;
+}
+
+interface ChunkVoice {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  endTime: number;
+}
+
+type PlaybackState = 'idle' | 'buffering' | 'playing';
+
+// Chunks are scheduled at least this far ahead of the playhead
+const SCHEDULE_LEAD_SECONDS = 0.02;
+// How quickly the pre-roll grows after an underrun and relaxes after a smooth reply
+const PREROLL_GROWTH = 1.5;
+const PREROLL_DECAY = 0.85;
+
+/**
+ * Plays streamed model audio gaplessly. Chunks are decoded in arrival order
+ * and held in a jitter buffer until enough audio is queued to ride out
+ * network hiccups. An underrun re-buffers with a larger pre-roll instead of
+ * stuttering chunk by chunk, and the pre-roll shrinks again once the network
+ * behaves.
+ */
+export class PlaybackEngine {
+  onSpeakingChange: ((speaking: boolean) => void) | null = null;
+  onChunkScheduled: ((chunk: ScheduledChunk) => void) | null = null;
+
+  private readonly options: Required<PlaybackEngineOptions>;
+  private state: PlaybackState = 'idle';
+  private speaking = false;
+  private prerollMs: number;
+  private pending: PendingChunk[] = [];
+  private voices = new Set<ChunkVoice>();
+  private tail: ChunkVoice | null = null;
+  private nextStartTime = 0;
+  private underrunSinceIdle = false;
+  private prerollTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  // Chained so chunks are scheduled in arrival order even though decoding is async
+  private decoding: Promise<void> = Promise.resolve();
+  // Bumped on flush so chunks still decoding for the old reply are dropped
+  private epoch = 0;
+  private bus: GainNode;
+
+  constructor(private readonly ctx: AudioContext, private readonly destination: AudioNode, options: PlaybackEngineOptions) {
+    this.options = {
+      initialPrerollMs: 120,
+      minPrerollMs: 60,
+      maxPrerollMs: 600,
+      crossfadeMs: 5,
+      fadeOutMs: 40,
+      idleGraceMs: 250,
+      ...options,
+    };
+    this.prerollMs = this.options.initialPrerollMs;
+    this.bus = this.createBus();
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  get currentPrerollMs() {
+    return this.prerollMs;
+  }
+
+  /** Queues a base64 PCM chunk from the Live API. */
+  enqueue(base64: string): Promise<void> {
+    const epoch = this.epoch;
+    this.decoding = this.decoding
+      .then(async () => {
+        const buffer = await decodeAudioData(decode(base64), this.ctx, this.options.sampleRate, 1);
+        if (epoch === this.epoch) this.accept(buffer);
+      })
+      .catch(err => console.error('Failed to decode model audio:', err));
+    return this.decoding;
+  }
+
+  /** Drops everything queued and fades out what is playing, e.g. when the user barges in. */
+  flush() {
+    this.epoch++;
+    this.clearTimers();
+    this.pending = [];
+
+    const now = this.ctx.currentTime;
+    const fadeEnd = now + this.options.fadeOutMs / 1000;
+    const bus = this.bus;
+    bus.gain.cancelScheduledValues(now);
+    bus.gain.setValueAtTime(bus.gain.value, now);
+    bus.gain.linearRampToValueAtTime(0, fadeEnd);
+    this.voices.forEach(voice => voice.source.stop(fadeEnd));
+    setTimeout(() => bus.disconnect(), this.options.fadeOutMs + 50);
+
+    this.voices.clear();
+    this.tail = null;
+    this.bus = this.createBus();
+    this.state = 'idle';
+    this.underrunSinceIdle = false;
+    this.setSpeaking(false);
+  }
+
+  /** Stops playback immediately and releases the engine's nodes. */
+  dispose() {
+    this.epoch++;
+    this.clearTimers();
+    this.pending = [];
+    this.voices.forEach(voice => voice.source.stop());
+    this.voices.clear();
+    this.tail = null;
+    this.bus.disconnect();
+    this.state = 'idle';
+    this.setSpeaking(false);
+  }
+
+  private accept(buffer: AudioBuffer) {
+    const now = this.ctx.currentTime;
+
+    if (this.idleTimer) {
+      // The queue ran dry mid-reply: treat it as an underrun rather than a new reply
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+      this.handleUnderrun();
+    }
+
+    if (this.state === 'playing' && this.nextStartTime < now + SCHEDULE_LEAD_SECONDS) {
+      this.handleUnderrun();
+    }
+
+    if (this.state === 'playing') {
+      this.schedule({ buffer, queueAheadSeconds: this.nextStartTime - now });
+      return;
+    }
+
+    const buffered = this.pending.reduce((total, chunk) => total + chunk.buffer.duration, 0);
+    const queueAheadSeconds = this.state === 'buffering' ? buffered : this.nextStartTime - now;
+    this.pending.push({ buffer, queueAheadSeconds });
+
+    if (this.state === 'idle') {
+      this.state = 'buffering';
+      this.prerollTimer = setTimeout(() => this.release(), this.prerollMs);
+    }
+    if ((buffered + buffer.duration) * 1000 >= this.prerollMs) {
+      this.release();
+    }
+  }
+
+  private handleUnderrun() {
+    this.underrunSinceIdle = true;
+    this.prerollMs = Math.min(this.options.maxPrerollMs, this.prerollMs * PREROLL_GROWTH);
+    this.state = 'idle';
+    this.tail = null;
+  }
+
+  // Starts playing everything buffered, beginning just ahead of the playhead
+  private release() {
+    if (this.prerollTimer) {
+      clearTimeout(this.prerollTimer);
+      this.prerollTimer = null;
+    }
+    if (this.state !== 'buffering') return;
+
+    this.state = 'playing';
+    this.nextStartTime = this.ctx.currentTime + SCHEDULE_LEAD_SECONDS;
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(chunk => this.schedule(chunk));
+    this.setSpeaking(true);
+  }
+
+  private schedule({ buffer, queueAheadSeconds }: PendingChunk) {
+    const fade = this.options.crossfadeMs / 1000;
+    const startTime = this.nextStartTime;
+    const endTime = startTime + buffer.duration;
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    const gain = this.ctx.createGain();
+    source.connect(gain);
+    gain.connect(this.bus);
+
+    // Fade in after a gap; contiguous chunks join sample-accurately with no envelope
+    const previous = this.tail;
+    if (previous && previous.endTime - fade > this.ctx.currentTime) {
+      previous.gain.gain.cancelScheduledValues(previous.endTime - fade);
+      previous.gain.gain.setValueAtTime(1, previous.endTime - fade);
+    } else {
+      gain.gain.setValueAtTime(0, startTime);
+      gain.gain.linearRampToValueAtTime(1, startTime + fade);
+    }
+    // Fade out in case nothing follows; cancelled above when the next chunk arrives in time
+    gain.gain.setValueAtTime(1, endTime - fade);
+    gain.gain.linearRampToValueAtTime(0, endTime);
+
+    const voice: ChunkVoice = { source, gain, endTime };
+    const epoch = this.epoch;
+    source.addEventListener('ended', () => {
+      gain.disconnect();
+      if (epoch !== this.epoch) return;
+      this.voices.delete(voice);
+      if (this.voices.size === 0 && this.state === 'playing') this.startIdleTimer();
+    });
+    source.start(startTime);
+
+    this.voices.add(voice);
+    this.tail = voice;
+    this.nextStartTime = endTime;
+    this.onChunkScheduled?.({ samples: buffer.getChannelData(0), startTime, queueAheadSeconds });
+  }
+
+  private startIdleTimer() {
+    if (this.idleTimer) return;
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (!this.underrunSinceIdle) {
+        this.prerollMs = Math.max(this.options.minPrerollMs, this.prerollMs * PREROLL_DECAY);
+      }
+      this.underrunSinceIdle = false;
+      this.state = 'idle';
+      this.tail = null;
+      this.setSpeaking(false);
+    }, this.options.idleGraceMs);
+  }
+
+  private createBus() {
+    const bus = this.ctx.createGain();
+    bus.connect(this.destination);
+    return bus;
+  }
+
+  private clearTimers() {
+    if (this.prerollTimer) clearTimeout(this.prerollTimer);
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.prerollTimer = null;
+    this.idleTimer = null;
+  }
+
+  private setSpeaking(speaking: boolean) {
+    if (this.speaking === speaking) return;
+    this.speaking = speaking;
+    this.onSpeakingChange?.(speaking);
+  }
+}
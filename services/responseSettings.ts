@@ -0,0 +1,13 @@
+import { Modality } from '../types';
+
+const RESPONSE_MODALITY_STORAGE_KEY = 'vox.responseModality';
+
+// Text-only replies keep Vox silent for meetings and quiet rooms
+export function loadResponseModality(): Modality {
+  const stored = localStorage.getItem(RESPONSE_MODALITY_STORAGE_KEY);
+  return stored === Modality.TEXT ? Modality.TEXT : Modality.AUDIO;
+}
+
+export function saveResponseModality(modality: Modality) {
+  localStorage.setItem(RESPONSE_MODALITY_STORAGE_KEY, modality);
+}
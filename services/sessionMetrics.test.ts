@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VAD_SETTINGS } from './voiceActivity';
+import { SessionMetrics, base64ByteLength, textByteLength } from './sessionMetrics';
+
+function createMetrics(options: ConstructorParameters<typeof SessionMetrics>[1] = {}) {
+  const clock = { now: 0 };
+  const metrics = new SessionMetrics('test-model', options, () => clock.now);
+  return { metrics, clock };
+}
+
+describe('SessionMetrics', () => {
+  it('measures latency from the end of speech to the first audio chunk', () => {
+    const { metrics, clock } = createMetrics();
+    metrics.recordSent(1000);
+    clock.now = 2000;
+    metrics.markSpeechEnd();
+    clock.now = 2450;
+    metrics.recordModelResponse();
+    metrics.recordModelAudio(-5);
+    clock.now = 2600;
+    metrics.recordModelAudio(0.2);
+    metrics.completeTurn();
+
+    const [turn] = metrics.snapshot().turns;
+    expect(turn.responseLatencyMs).toBe(450);
+    expect(turn.audioChunks).toBe(2);
+    expect(turn.underruns).toBe(0);
+    expect(turn.maxQueueDepthMs).toBeCloseTo(200);
+    expect(turn.bytesSent).toBe(1000);
+  });
+
+  it('takes latency when audio arrives, not when playback schedules it after the pre-roll', () => {
+    const { metrics, clock } = createMetrics();
+    metrics.markSpeechEnd();
+    clock.now = 300;
+    metrics.recordModelResponse();
+    // The jitter buffer holds the first chunk for its pre-roll before scheduling it
+    clock.now = 720;
+    metrics.recordModelAudio(0.12);
+    metrics.completeTurn();
+
+    const [turn] = metrics.snapshot().turns;
+    expect(turn.responseLatencyMs).toBe(300);
+    expect(turn.audioChunks).toBe(1);
+  });
+
+  it('counts a drained queue mid-turn as an underrun with its gap', () => {
+    const { metrics } = createMetrics();
+    metrics.recordModelResponse();
+    metrics.recordModelAudio(0);
+    metrics.recordModelAudio(0.1);
+    metrics.recordModelAudio(-0.05);
+    metrics.completeTurn();
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.turns[0].underruns).toBe(1);
+    expect(snapshot.turns[0].gapMs).toBeCloseTo(50);
+    expect(snapshot.totals.underruns).toBe(1);
+  });
+
+  it('summarises latency and interruptions across turns', () => {
+    const { metrics, clock } = createMetrics();
+    for (const latency of [300, 500, 900]) {
+      metrics.markSpeechEnd();
+      clock.now += latency;
+      metrics.recordModelResponse();
+      metrics.recordModelAudio(0);
+      if (latency === 900) metrics.recordInterruption();
+      metrics.completeTurn();
+    }
+
+    const { totals } = metrics.snapshot();
+    expect(totals.turns).toBe(3);
+    expect(totals.medianResponseLatencyMs).toBe(500);
+    expect(totals.p90ResponseLatencyMs).toBe(900);
+    expect(totals.interruptions).toBe(1);
+  });
+
+  it('includes the turn in progress once the model has responded', () => {
+    const { metrics } = createMetrics();
+    metrics.recordSent(10);
+    expect(metrics.snapshot().turns).toHaveLength(0);
+    expect(metrics.snapshot().totals.bytesSent).toBe(10);
+
+    metrics.recordModelResponse();
+    expect(metrics.snapshot().turns).toHaveLength(1);
+  });
+
+  it('detects the end of speech itself when given VAD settings', () => {
+    const sampleRate = 16000;
+    const { metrics, clock } = createMetrics({ vad: DEFAULT_VAD_SETTINGS, sampleRate });
+    const frame = (amplitude: number) =>
+      Float32Array.from({ length: 320 }, (_, i) => amplitude * Math.sin(2 * Math.PI * 200 * i / sampleRate));
+
+    for (let i = 0; i < 20; i++) metrics.observeInput(frame(0.3));
+    for (let i = 0; i < 40; i++) {
+      clock.now += 20;
+      metrics.observeInput(frame(0));
+    }
+    // Speech ends after the 500 ms hangover, backdated to when the silence began
+    metrics.recordModelResponse();
+
+    expect(metrics.snapshot().turns[0].responseLatencyMs).toBe(800);
+  });
+
+  it('backdates a gate-reported end of speech by the same hangover', () => {
+    const { metrics, clock } = createMetrics({ vad: DEFAULT_VAD_SETTINGS });
+    clock.now = 1000;
+    metrics.markVoiceActivityEnd();
+    clock.now = 1300;
+    metrics.recordModelResponse();
+
+    expect(metrics.snapshot().turns[0].responseLatencyMs).toBe(300 + DEFAULT_VAD_SETTINGS.hangoverMs);
+  });
+});
+
+describe('payload sizes', () => {
+  it('counts the decoded bytes of base64 payloads', () => {
+    expect(base64ByteLength('')).toBe(0);
+    expect(base64ByteLength('AQID')).toBe(3);
+    expect(base64ByteLength('AQIDBA==')).toBe(4);
+    expect(base64ByteLength('AQIDBAU=')).toBe(5);
+  });
+
+  it('counts text as UTF-8', () => {
+    expect(textByteLength('hello')).toBe(5);
+    expect(textByteLength('café')).toBe(5);
+    expect(textByteLength('こんにちは')).toBe(15);
+  });
+});
@@ -0,0 +1,203 @@
+import { VadSettings } from '../types';
+import { VoiceActivityDetector } from './voiceActivity';
+
+export interface TurnMetrics {
+  index: number;
+  // Epoch milliseconds when the turn's first model audio (or text, for text-only replies) arrived.
+  firstResponseAt: number | null;
+  // From the end of the user's speech to that first response.
+  responseLatencyMs: number | null;
+  audioChunks: number;
+  // Audio already queued ahead of the playhead when each chunk arrived.
+  maxQueueDepthMs: number;
+  avgQueueDepthMs: number;
+  // Chunks that arrived after the queue had run dry mid-turn, and the silence that left.
+  underruns: number;
+  gapMs: number;
+  interrupted: boolean;
+  bytesSent: number;
+  bytesReceived: number;
+}
+
+export interface SessionMetricsSnapshot {
+  startedAt: number;
+  durationMs: number;
+  model: string;
+  turns: TurnMetrics[];
+  totals: {
+    turns: number;
+    medianResponseLatencyMs: number | null;
+    p90ResponseLatencyMs: number | null;
+    underruns: number;
+    gapMs: number;
+    interruptions: number;
+    bytesSent: number;
+    bytesReceived: number;
+  };
+}
+
+const createTurn = (index: number): TurnMetrics => ({
+  index,
+  firstResponseAt: null,
+  responseLatencyMs: null,
+  audioChunks: 0,
+  maxQueueDepthMs: 0,
+  avgQueueDepthMs: 0,
+  underruns: 0,
+  gapMs: 0,
+  interrupted: false,
+  bytesSent: 0,
+  bytesReceived: 0,
+});
+
+/** Decoded size of a base64 payload, without decoding it. */
+export function base64ByteLength(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+const textEncoder = new TextEncoder();
+
+/** UTF-8 size of text as it goes over the wire. */
+export function textByteLength(text: string): number {
+  return textEncoder.encode(text).length;
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+const sum = (turns: TurnMetrics[], key: 'underruns' | 'gapMs' | 'bytesSent' | 'bytesReceived') =>
+  turns.reduce((total, turn) => total + turn[key], 0);
+
+/**
+ * Per-turn latency and playback quality for one session. A turn runs from
+ * the previous `turnComplete` to the next, so bytes sent while the user
+ * speaks count towards the reply they lead to.
+ */
+export class SessionMetrics {
+  readonly startedAt = Date.now();
+  private endedAt: number | null = null;
+  private readonly turns: TurnMetrics[] = [];
+  private current = createTurn(0);
+  private speechEndedAt: number | null = null;
+  private queueDepthTotalMs = 0;
+  // Only used in open-mic mode, where no input gate marks the end of speech
+  private readonly detector: VoiceActivityDetector | null;
+  private readonly hangoverMs: number;
+
+  constructor(
+    readonly model: string,
+    // `vad` sets the hangover to backdate by; with `sampleRate` too, speech is detected locally
+    options: { vad?: VadSettings; sampleRate?: number } = {},
+    private readonly now: () => number = () => performance.now(),
+  ) {
+    this.detector = options.vad && options.sampleRate
+      ? new VoiceActivityDetector(options.vad, options.sampleRate)
+      : null;
+    this.hangoverMs = options.vad?.hangoverMs ?? 0;
+  }
+
+  /** Feeds a capture frame to the local speech detector, if there is one. */
+  observeInput(frame: Float32Array) {
+    if (!this.detector) return;
+    const wasSpeaking = this.detector.isSpeaking;
+    const speaking = this.detector.process(frame);
+    if (wasSpeaking && !speaking) this.markVoiceActivityEnd();
+  }
+
+  markSpeechEnd(at = this.now()) {
+    this.speechEndedAt = at;
+  }
+
+  /** Marks the end of speech as a VAD reports it: only after its hangover, so backdated by that. */
+  markVoiceActivityEnd() {
+    this.markSpeechEnd(this.now() - this.hangoverMs);
+  }
+
+  recordSent(bytes: number) {
+    this.current.bytesSent += bytes;
+  }
+
+  recordReceived(bytes: number) {
+    this.current.bytesReceived += bytes;
+  }
+
+  /**
+   * Records a model audio chunk as playback schedules it. `queueAheadSeconds`
+   * is how far the playback queue end was ahead of the playhead at that point;
+   * negative means the queue had already drained. Response latency is not
+   * taken here, since scheduling waits for the jitter buffer's pre-roll.
+   */
+  recordModelAudio(queueAheadSeconds: number) {
+    const turn = this.current;
+    const queueMs = queueAheadSeconds * 1000;
+
+    if (turn.audioChunks > 0 && queueMs < 0) {
+      turn.underruns++;
+      turn.gapMs += -queueMs;
+    }
+
+    const depthMs = Math.max(0, queueMs);
+    turn.audioChunks++;
+    this.queueDepthTotalMs += depthMs;
+    turn.maxQueueDepthMs = Math.max(turn.maxQueueDepthMs, depthMs);
+    turn.avgQueueDepthMs = this.queueDepthTotalMs / turn.audioChunks;
+  }
+
+  /** Marks the arrival of the turn's first model output; later calls are ignored. */
+  recordModelResponse() {
+    const turn = this.current;
+    if (turn.firstResponseAt !== null) return;
+    turn.firstResponseAt = Date.now();
+    if (this.speechEndedAt !== null) {
+      turn.responseLatencyMs = Math.max(0, Math.round(this.now() - this.speechEndedAt));
+      this.speechEndedAt = null;
+    }
+  }
+
+  recordInterruption() {
+    this.current.interrupted = true;
+  }
+
+  completeTurn() {
+    const turn = this.current;
+    if (turn.firstResponseAt === null && turn.bytesSent === 0 && turn.bytesReceived === 0) return;
+    this.turns.push(turn);
+    this.current = createTurn(this.turns.length);
+    this.queueDepthTotalMs = 0;
+  }
+
+  /** Stops the session clock; the in-progress turn is kept. */
+  end() {
+    this.endedAt ??= Date.now();
+  }
+
+  snapshot(): SessionMetricsSnapshot {
+    const turns = this.current.firstResponseAt !== null ? [...this.turns, { ...this.current }] : [...this.turns];
+    const latencies = turns.flatMap(turn => (turn.responseLatencyMs === null ? [] : [turn.responseLatencyMs]));
+    return {
+      startedAt: this.startedAt,
+      durationMs: (this.endedAt ?? Date.now()) - this.startedAt,
+      model: this.model,
+      turns,
+      totals: {
+        turns: turns.length,
+        medianResponseLatencyMs: percentile(latencies, 0.5),
+        p90ResponseLatencyMs: percentile(latencies, 0.9),
+        underruns: sum(turns, 'underruns'),
+        gapMs: sum(turns, 'gapMs'),
+        interruptions: turns.filter(turn => turn.interrupted).length,
+        // Include the turn in progress, which may not have produced audio yet
+        bytesSent: sum(this.turns, 'bytesSent') + this.current.bytesSent,
+        bytesReceived: sum(this.turns, 'bytesReceived') + this.current.bytesReceived,
+      },
+    };
+  }
+}
+
+export function exportMetrics(snapshot: SessionMetricsSnapshot): Blob {
+  return new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json' });
+}
@@ -0,0 +1,125 @@
+import { TranscriptionEntry } from '../types';
+import { encodeWav, resampleLinear } from './audioUtils';
+
+// Chunks landing this close to the end of the previous one are treated as contiguous,
+// so timer jitter on the main thread does not open clicks or overlaps in the recording.
+const SNAP_TOLERANCE_SECONDS = 0.08;
+
+interface RecordedChunk {
+  // Seconds from the start of the recording
+  at: number;
+  samples: Float32Array;
+}
+
+class RecordedTrack {
+  chunks: RecordedChunk[] = [];
+  private expectedNext = -Infinity;
+
+  constructor(readonly sampleRate: number) {}
+
+  add(at: number, samples: Float32Array) {
+    const start = Math.abs(at - this.expectedNext) < SNAP_TOLERANCE_SECONDS ? this.expectedNext : at;
+    this.chunks.push({ at: Math.max(0, start), samples });
+    this.expectedNext = start + samples.length / this.sampleRate;
+  }
+
+  /** Drops audio after `at`, e.g. model speech that was cut off before it was heard. */
+  truncate(at: number) {
+    this.chunks = this.chunks.flatMap(chunk => {
+      if (chunk.at >= at) return [];
+      const keep = Math.round((at - chunk.at) * this.sampleRate);
+      return keep >= chunk.samples.length ? [chunk] : [{ at: chunk.at, samples: chunk.samples.slice(0, keep) }];
+    });
+    this.expectedNext = -Infinity;
+  }
+
+  get duration() {
+    return this.chunks.reduce((end, chunk) => Math.max(end, chunk.at + chunk.samples.length / this.sampleRate), 0);
+  }
+
+  render(sampleRate: number, length: number): Float32Array {
+    const output = new Float32Array(length);
+    for (const chunk of this.chunks) {
+      const offset = Math.round(chunk.at * sampleRate);
+      if (offset >= length) continue;
+      const samples = resampleLinear(chunk.samples, this.sampleRate, sampleRate);
+      output.set(samples.subarray(0, length - offset), offset);
+    }
+    return output;
+  }
+}
+
+export interface SessionRecording {
+  startedAt: number;
+  wav: Blob;
+  transcript: Blob;
+}
+
+/**
+ * Captures both sides of a conversation on a shared clock so they can be
+ * exported as a time-aligned stereo WAV (left: user, right: Vox) alongside a
+ * JSON log of the transcribed turns.
+ */
+export class SessionRecorder {
+  readonly startedAt = Date.now();
+  private readonly clockOrigin = performance.now();
+  private readonly user: RecordedTrack;
+  private readonly model: RecordedTrack;
+
+  constructor(inputSampleRate: number, private readonly outputSampleRate: number) {
+    this.user = new RecordedTrack(inputSampleRate);
+    this.model = new RecordedTrack(outputSampleRate);
+  }
+
+  private now() {
+    return (performance.now() - this.clockOrigin) / 1000;
+  }
+
+  /** Records a microphone frame that has just finished being captured. */
+  recordInput(frame: Float32Array) {
+    this.user.add(this.now() - frame.length / this.user.sampleRate, frame.slice());
+  }
+
+  /** Records model audio scheduled to start playing `delaySeconds` from now. */
+  recordOutput(samples: Float32Array, delaySeconds: number) {
+    this.model.add(this.now() + Math.max(0, delaySeconds), samples.slice());
+  }
+
+  /** Removes queued model audio that was stopped by an interruption. */
+  interruptOutput() {
+    this.model.truncate(this.now());
+  }
+
+  get isEmpty() {
+    return this.user.chunks.length === 0 && this.model.chunks.length === 0;
+  }
+
+  finish(entries: TranscriptionEntry[]): SessionRecording {
+    const sampleRate = this.outputSampleRate;
+    const length = Math.ceil(Math.max(this.user.duration, this.model.duration) * sampleRate);
+    const wav = encodeWav([this.user.render(sampleRate, length), this.model.render(sampleRate, length)], sampleRate);
+
+    const turns = entries
+      .filter(entry => entry.updatedAt >= this.startedAt)
+      .map(entry => ({
+        role: entry.role,
+        text: entry.text,
+        startMs: Math.max(0, entry.startedAt - this.startedAt),
+        endMs: Math.max(0, entry.updatedAt - this.startedAt),
+        interrupted: entry.interrupted ?? false,
+      }));
+
+    const transcript = JSON.stringify({
+      startedAt: new Date(this.startedAt).toISOString(),
+      durationMs: Math.round(length / sampleRate * 1000),
+      audio: { sampleRate, channels: ['user', 'model'] },
+      turns,
+    }, null, 2);
+
+    return {
+      startedAt: this.startedAt,
+      wav: new Blob([wav], { type: 'audio/wav' }),
+      transcript: new Blob([transcript], { type: 'application/json' }),
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { EndSensitivity, StartSensitivity } from '@google/genai';
+import { Modality, SessionSettings } from '../types';
+import { AUDIO_MODEL_NAME, TEXT_MODEL_NAME } from './liveModels';
+import {
+  DEFAULT_SESSION_SETTINGS,
+  buildSessionConfig,
+  decodeSessionPreset,
+  describeSessionChanges,
+  describeSessionConfig,
+  encodeSessionPreset,
+  exportSessionPreset,
+  importSessionPreset,
+  parseSessionSettings,
+  resolveModel,
+} from './sessionSettings';
+
+const tuned: SessionSettings = {
+  model: AUDIO_MODEL_NAME,
+  voice: 'Puck',
+  activityDetection: { startSensitivity: 'low', endSensitivity: 'high', prefixPaddingMs: 200, silenceDurationMs: 800 },
+  generation: { temperature: 0.6, topP: 0.9, topK: null, maxOutputTokens: 512 },
+  affectiveDialog: true,
+  proactiveAudio: true,
+  contextCompression: { enabled: true, triggerTokens: 32000, targetTokens: 16000 },
+};
+
+describe('session settings', () => {
+  it('fills missing fields with defaults', () => {
+    expect(parseSessionSettings({})).toEqual(DEFAULT_SESSION_SETTINGS);
+    expect(parseSessionSettings({ generation: { temperature: 1 } }).generation.temperature).toBe(1);
+  });
+
+  it('rejects invalid values with a readable message', () => {
+    expect(() => parseSessionSettings({ generation: { temperature: 3 } })).toThrow('Temperature must be between 0 and 2.');
+    expect(() => parseSessionSettings({ generation: { topK: 2.5 } })).toThrow('Top-K must be a whole number.');
+    expect(() => parseSessionSettings({ voice: 'Nobody' })).toThrow('"Nobody" is not one of the available voices.');
+    expect(() => parseSessionSettings({ model: 'Gemini Pro!' })).toThrow('The model name is not valid.');
+    expect(() => parseSessionSettings({ activityDetection: { endSensitivity: 'max' } })).toThrow('End sensitivity');
+    expect(() => parseSessionSettings({ contextCompression: { triggerTokens: 8000, targetTokens: 8000 } }))
+      .toThrow('The compression target must be smaller than the trigger.');
+  });
+
+  it('round-trips through a preset file and a shared link', () => {
+    expect(importSessionPreset(exportSessionPreset(tuned))).toEqual(tuned);
+    const encoded = encodeSessionPreset(tuned);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeSessionPreset(encoded)).toEqual(tuned);
+    expect(() => decodeSessionPreset('not-a-preset')).toThrow('The shared settings link is damaged.');
+  });
+
+  it('falls back to a model that can reply in the chosen modality', () => {
+    expect(resolveModel(DEFAULT_SESSION_SETTINGS, Modality.AUDIO)).toBe(AUDIO_MODEL_NAME);
+    expect(resolveModel(DEFAULT_SESSION_SETTINGS, Modality.TEXT)).toBe(TEXT_MODEL_NAME);
+    expect(resolveModel(tuned, Modality.TEXT)).toBe(TEXT_MODEL_NAME);
+    expect(resolveModel({ ...tuned, model: TEXT_MODEL_NAME }, Modality.AUDIO)).toBe(TEXT_MODEL_NAME);
+  });
+
+  it('maps settings onto the Live config', () => {
+    expect(buildSessionConfig(tuned, AUDIO_MODEL_NAME, { serverActivityDetection: true })).toEqual({
+      temperature: 0.6,
+      topP: 0.9,
+      maxOutputTokens: 512,
+      realtimeInputConfig: {
+        automaticActivityDetection: {
+          startOfSpeechSensitivity: StartSensitivity.START_SENSITIVITY_LOW,
+          endOfSpeechSensitivity: EndSensitivity.END_SENSITIVITY_HIGH,
+          prefixPaddingMs: 200,
+          silenceDurationMs: 800,
+        },
+      },
+      enableAffectiveDialog: true,
+      proactivity: { proactiveAudio: true },
+      contextWindowCompression: { triggerTokens: '32000', slidingWindow: { targetTokens: '16000' } },
+    });
+  });
+
+  it('leaves out what the model or input mode cannot use', () => {
+    const config = buildSessionConfig(tuned, TEXT_MODEL_NAME, { serverActivityDetection: false });
+    expect(config.realtimeInputConfig).toEqual({ automaticActivityDetection: { disabled: true } });
+    expect(config.enableAffectiveDialog).toBeUndefined();
+    expect(config.proactivity).toBeUndefined();
+    expect(buildSessionConfig(DEFAULT_SESSION_SETTINGS, AUDIO_MODEL_NAME, { serverActivityDetection: true }).realtimeInputConfig)
+      .toEqual({ automaticActivityDetection: {} });
+  });
+
+  it('describes only what differs from the defaults', () => {
+    expect(describeSessionConfig(DEFAULT_SESSION_SETTINGS, AUDIO_MODEL_NAME, { serverActivityDetection: true })).toEqual([]);
+    expect(describeSessionConfig(tuned, TEXT_MODEL_NAME, { serverActivityDetection: false }))
+      .toEqual(['Temp 0.6', 'Top-P 0.9', 'Max 512 tokens', 'Compress at 32k']);
+  });
+
+  it('lists what a shared preset would change', () => {
+    expect(describeSessionChanges(tuned, tuned)).toEqual([]);
+    expect(describeSessionChanges(DEFAULT_SESSION_SETTINGS, { ...DEFAULT_SESSION_SETTINGS, voice: 'Puck', affectiveDialog: true }))
+      .toEqual(['Voice: default → Puck', 'Affective dialog: off → on']);
+    expect(describeSessionChanges(tuned, { ...tuned, generation: { ...tuned.generation, temperature: null } }))
+      .toEqual(['Temperature: 0.6 → default']);
+  });
+});
@@ -0,0 +1,318 @@
+import { EndSensitivity, LiveConnectConfig, StartSensitivity } from '@google/genai';
+import { Modality, SessionSettings, SpeechSensitivity } from '../types';
+import { AUDIO_MODEL_NAME, TEXT_MODEL_NAME, describeModel } from './liveModels';
+import { PREBUILT_VOICES } from './personaStore';
+import { decode, encode } from './audioUtils';
+
+const SESSION_SETTINGS_STORAGE_KEY = 'vox.session';
+const EXPORT_VERSION = 1;
+
+// Query parameter a shared settings link carries its preset in
+export const SESSION_PRESET_PARAM = 'session';
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  model: '',
+  voice: '',
+  activityDetection: { startSensitivity: 'default', endSensitivity: 'default', prefixPaddingMs: null, silenceDurationMs: null },
+  generation: { temperature: null, topP: null, topK: null, maxOutputTokens: null },
+  affectiveDialog: false,
+  proactiveAudio: false,
+  contextCompression: { enabled: false, triggerTokens: null, targetTokens: null },
+};
+
+export const SENSITIVITY_OPTIONS: { value: SpeechSensitivity; label: string }[] = [
+  { value: 'default', label: 'Default' },
+  { value: 'high', label: 'High' },
+  { value: 'low', label: 'Low' },
+];
+
+export interface NumberLimit {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  integer: boolean;
+}
+
+export const NUMBER_LIMITS = {
+  prefixPaddingMs: { label: 'Prefix padding', min: 0, max: 2000, step: 10, integer: true },
+  silenceDurationMs: { label: 'Silence duration', min: 100, max: 5000, step: 50, integer: true },
+  temperature: { label: 'Temperature', min: 0, max: 2, step: 0.05, integer: false },
+  topP: { label: 'Top-P', min: 0, max: 1, step: 0.01, integer: false },
+  topK: { label: 'Top-K', min: 1, max: 100, step: 1, integer: true },
+  maxOutputTokens: { label: 'Max output tokens', min: 1, max: 8192, step: 1, integer: true },
+  triggerTokens: { label: 'Compression trigger', min: 1000, max: 1000000, step: 1000, integer: true },
+  targetTokens: { label: 'Compression target', min: 500, max: 1000000, step: 1000, integer: true },
+} satisfies Record<string, NumberLimit>;
+
+// Model names as the Live API writes them, e.g. gemini-live-2.5-flash-preview
+const MODEL_NAME_PATTERN = /^[a-z0-9][a-z0-9.-]{0,99}$/;
+
+export function isValidModelName(name: string): boolean {
+  return MODEL_NAME_PATTERN.test(name);
+}
+
+/** Returns why a number is out of range, or null when it is acceptable (null means the server default). */
+export function validateNumber(limit: NumberLimit, value: number | null): string | null {
+  if (value === null) return null;
+  if (!Number.isFinite(value)) return `${limit.label} must be a number.`;
+  if (limit.integer && !Number.isInteger(value)) return `${limit.label} must be a whole number.`;
+  if (value < limit.min || value > limit.max) return `${limit.label} must be between ${limit.min} and ${limit.max}.`;
+  return null;
+}
+
+function parseNumber(limit: NumberLimit, value: unknown): number | null {
+  if (value === undefined || value === null) return null;
+  const error = typeof value === 'number' ? validateNumber(limit, value) : `${limit.label} must be a number.`;
+  if (error) throw new Error(error);
+  return value as number;
+}
+
+function parseSensitivity(label: string, value: unknown): SpeechSensitivity {
+  if (value === undefined) return 'default';
+  if (!SENSITIVITY_OPTIONS.some(option => option.value === value)) {
+    throw new Error(`${label} must be default, high or low.`);
+  }
+  return value as SpeechSensitivity;
+}
+
+function parseBoolean(label: string, value: unknown): boolean {
+  if (value === undefined) return false;
+  if (typeof value !== 'boolean') throw new Error(`${label} must be true or false.`);
+  return value;
+}
+
+/**
+ * Validates session settings from storage, a preset file or a shared link.
+ * Missing fields take their defaults; anything present but invalid throws with a readable message.
+ */
+export function parseSessionSettings(value: any): SessionSettings {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('The session settings are not an object.');
+  }
+  const model = value.model ?? '';
+  if (typeof model !== 'string' || (model && !isValidModelName(model))) {
+    throw new Error('The model name is not valid.');
+  }
+  const voice = value.voice ?? '';
+  if (voice && !PREBUILT_VOICES.includes(voice)) {
+    throw new Error(`"${voice}" is not one of the available voices.`);
+  }
+
+  const activity = value.activityDetection ?? {};
+  const generation = value.generation ?? {};
+  const compression = value.contextCompression ?? {};
+  const settings: SessionSettings = {
+    model,
+    voice,
+    activityDetection: {
+      startSensitivity: parseSensitivity('Start sensitivity', activity.startSensitivity),
+      endSensitivity: parseSensitivity('End sensitivity', activity.endSensitivity),
+      prefixPaddingMs: parseNumber(NUMBER_LIMITS.prefixPaddingMs, activity.prefixPaddingMs),
+      silenceDurationMs: parseNumber(NUMBER_LIMITS.silenceDurationMs, activity.silenceDurationMs),
+    },
+    generation: {
+      temperature: parseNumber(NUMBER_LIMITS.temperature, generation.temperature),
+      topP: parseNumber(NUMBER_LIMITS.topP, generation.topP),
+      topK: parseNumber(NUMBER_LIMITS.topK, generation.topK),
+      maxOutputTokens: parseNumber(NUMBER_LIMITS.maxOutputTokens, generation.maxOutputTokens),
+    },
+    affectiveDialog: parseBoolean('Affective dialog', value.affectiveDialog),
+    proactiveAudio: parseBoolean('Proactive audio', value.proactiveAudio),
+    contextCompression: {
+      enabled: parseBoolean('Context compression', compression.enabled),
+      triggerTokens: parseNumber(NUMBER_LIMITS.triggerTokens, compression.triggerTokens),
+      targetTokens: parseNumber(NUMBER_LIMITS.targetTokens, compression.targetTokens),
+    },
+  };
+  const crossFieldError = validateSessionSettings(settings)[0];
+  if (crossFieldError) throw new Error(crossFieldError);
+  return settings;
+}
+
+/** Problems that depend on more than one field; empty when the settings can be used. */
+export function validateSessionSettings(settings: SessionSettings): string[] {
+  const errors: string[] = [];
+  const { triggerTokens, targetTokens } = settings.contextCompression;
+  if (triggerTokens !== null && targetTokens !== null && targetTokens >= triggerTokens) {
+    errors.push('The compression target must be smaller than the trigger.');
+  }
+  return errors;
+}
+
+export function loadSessionSettings(): SessionSettings {
+  try {
+    const raw = localStorage.getItem(SESSION_SETTINGS_STORAGE_KEY);
+    if (raw) return parseSessionSettings(JSON.parse(raw));
+  } catch (err) {
+    console.warn('Ignoring unreadable session settings:', err);
+  }
+  return DEFAULT_SESSION_SETTINGS;
+}
+
+export function saveSessionSettings(settings: SessionSettings) {
+  localStorage.setItem(SESSION_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function exportSessionPreset(settings: SessionSettings): string {
+  return JSON.stringify({ version: EXPORT_VERSION, session: settings }, null, 2);
+}
+
+/** Parses a preset file (or bare settings). Throws with a readable message when it is invalid. */
+export function importSessionPreset(json: string): SessionSettings {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  return parseSessionSettings(data?.session ?? data);
+}
+
+/** Encodes settings as URL-safe base64 for a shared link. */
+export function encodeSessionPreset(settings: SessionSettings): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(settings));
+  return encode(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeSessionPreset(encoded: string): SessionSettings {
+  let data: unknown;
+  try {
+    const bytes = decode(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('The shared settings link is damaged.');
+  }
+  return parseSessionSettings(data);
+}
+
+export function buildShareUrl(settings: SessionSettings, location: { origin: string; pathname: string }): string {
+  return `${location.origin}${location.pathname}?${SESSION_PRESET_PARAM}=${encodeSessionPreset(settings)}`;
+}
+
+/** The model a session will use: the chosen one when it can reply in the modality, else the default for it. */
+export function resolveModel(settings: SessionSettings, modality: Modality): string {
+  const textOnly = modality === Modality.TEXT;
+  if (settings.model && (!textOnly || describeModel(settings.model).textReplies)) return settings.model;
+  return textOnly ? TEXT_MODEL_NAME : AUDIO_MODEL_NAME;
+}
+
+const START_SENSITIVITY: Record<SpeechSensitivity, StartSensitivity | undefined> = {
+  default: undefined,
+  high: StartSensitivity.START_SENSITIVITY_HIGH,
+  low: StartSensitivity.START_SENSITIVITY_LOW,
+};
+
+const END_SENSITIVITY: Record<SpeechSensitivity, EndSensitivity | undefined> = {
+  default: undefined,
+  high: EndSensitivity.END_SENSITIVITY_HIGH,
+  low: EndSensitivity.END_SENSITIVITY_LOW,
+};
+
+// Unset fields are left out so the server applies its own defaults
+function withoutNulls<T extends object>(value: T) {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== null && field !== undefined)) as {
+    [K in keyof T]?: Exclude<T[K], null>;
+  };
+}
+
+/**
+ * The parts of the Live config these settings control. Server-side activity
+ * detection only applies with an open mic; push-to-talk and client VAD disable it.
+ */
+export function buildSessionConfig(
+  settings: SessionSettings,
+  model: string,
+  options: { serverActivityDetection: boolean },
+): Partial<LiveConnectConfig> {
+  const { activityDetection, contextCompression } = settings;
+  const { nativeAudio } = describeModel(model);
+  return {
+    ...withoutNulls(settings.generation),
+    realtimeInputConfig: options.serverActivityDetection
+      ? {
+          automaticActivityDetection: withoutNulls({
+            startOfSpeechSensitivity: START_SENSITIVITY[activityDetection.startSensitivity],
+            endOfSpeechSensitivity: END_SENSITIVITY[activityDetection.endSensitivity],
+            prefixPaddingMs: activityDetection.prefixPaddingMs,
+            silenceDurationMs: activityDetection.silenceDurationMs,
+          }),
+        }
+      : { automaticActivityDetection: { disabled: true } },
+    enableAffectiveDialog: nativeAudio && settings.affectiveDialog ? true : undefined,
+    proactivity: nativeAudio && settings.proactiveAudio ? { proactiveAudio: true } : undefined,
+    // Token counts are int64 in the API, so they travel as strings
+    contextWindowCompression: contextCompression.enabled
+      ? {
+          triggerTokens: contextCompression.triggerTokens?.toString(),
+          slidingWindow: { targetTokens: contextCompression.targetTokens?.toString() },
+        }
+      : undefined,
+  };
+}
+
+function formatTokens(count: number) {
+  return count >= 1000 ? `${Math.round(count / 1000)}k` : String(count);
+}
+
+/** Short labels for every setting that differs from the server's defaults, for the footer. */
+export function describeSessionConfig(
+  settings: SessionSettings,
+  model: string,
+  options: { serverActivityDetection: boolean },
+): string[] {
+  const { activityDetection, generation, contextCompression } = settings;
+  const { nativeAudio } = describeModel(model);
+  const parts: string[] = [];
+  if (options.serverActivityDetection) {
+    if (activityDetection.startSensitivity !== 'default') parts.push(`Start ${activityDetection.startSensitivity}`);
+    if (activityDetection.endSensitivity !== 'default') parts.push(`End ${activityDetection.endSensitivity}`);
+    if (activityDetection.silenceDurationMs !== null) parts.push(`Silence ${activityDetection.silenceDurationMs} ms`);
+    if (activityDetection.prefixPaddingMs !== null) parts.push(`Padding ${activityDetection.prefixPaddingMs} ms`);
+  }
+  if (generation.temperature !== null) parts.push(`Temp ${generation.temperature}`);
+  if (generation.topP !== null) parts.push(`Top-P ${generation.topP}`);
+  if (generation.topK !== null) parts.push(`Top-K ${generation.topK}`);
+  if (generation.maxOutputTokens !== null) parts.push(`Max ${generation.maxOutputTokens} tokens`);
+  if (nativeAudio && settings.affectiveDialog) parts.push('Affective');
+  if (nativeAudio && settings.proactiveAudio) parts.push('Proactive');
+  if (contextCompression.enabled) {
+    parts.push(contextCompression.triggerTokens !== null
+      ? `Compress at ${formatTokens(contextCompression.triggerTokens)}`
+      : 'Compression');
+  }
+  return parts;
+}
+
+const CHANGE_FIELDS: { label: string; read: (settings: SessionSettings) => string | number | boolean | null }[] = [
+  { label: 'Model', read: s => s.model || null },
+  { label: 'Voice', read: s => s.voice || null },
+  { label: 'Start sensitivity', read: s => (s.activityDetection.startSensitivity === 'default' ? null : s.activityDetection.startSensitivity) },
+  { label: 'End sensitivity', read: s => (s.activityDetection.endSensitivity === 'default' ? null : s.activityDetection.endSensitivity) },
+  { label: 'Prefix padding (ms)', read: s => s.activityDetection.prefixPaddingMs },
+  { label: 'Silence duration (ms)', read: s => s.activityDetection.silenceDurationMs },
+  { label: 'Temperature', read: s => s.generation.temperature },
+  { label: 'Top-P', read: s => s.generation.topP },
+  { label: 'Top-K', read: s => s.generation.topK },
+  { label: 'Max output tokens', read: s => s.generation.maxOutputTokens },
+  { label: 'Affective dialog', read: s => s.affectiveDialog },
+  { label: 'Proactive audio', read: s => s.proactiveAudio },
+  { label: 'Context compression', read: s => s.contextCompression.enabled },
+  { label: 'Compression trigger', read: s => s.contextCompression.triggerTokens },
+  { label: 'Compression target', read: s => s.contextCompression.targetTokens },
+];
+
+function formatSetting(value: string | number | boolean | null) {
+  if (value === null) return 'default';
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  return String(value);
+}
+
+/** "Label: from → to" for every setting `next` would change, so a shared link can be reviewed before it is applied. */
+export function describeSessionChanges(current: SessionSettings, next: SessionSettings): string[] {
+  return CHANGE_FIELDS.flatMap(({ label, read }) => {
+    const from = read(current);
+    const to = read(next);
+    return from === to ? [] : [`${label}: ${formatSetting(from)} → ${formatSetting(to)}`];
+  });
+}
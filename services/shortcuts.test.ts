@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { formatShortcut, matchShortcut, SHORTCUTS } from './shortcuts';
+
+const press = (code: string, modifiers: { alt?: boolean; shift?: boolean; ctrl?: boolean } = {}, target: unknown = null) => ({
+  code,
+  altKey: !!modifiers.alt,
+  shiftKey: !!modifiers.shift,
+  ctrlKey: !!modifiers.ctrl,
+  metaKey: false,
+  target: target as EventTarget | null,
+});
+
+const input = { tagName: 'INPUT', isContentEditable: false };
+
+describe('matchShortcut', () => {
+  it('matches on key code and exact modifiers', () => {
+    expect(matchShortcut(press('Enter', { alt: true }))?.action).toBe('toggleConnection');
+    expect(matchShortcut(press('Enter'))).toBeUndefined();
+    expect(matchShortcut(press('KeyM', { alt: true, shift: true }))).toBeUndefined();
+  });
+
+  it('ignores Ctrl+Alt, which is AltGr on some layouts', () => {
+    expect(matchShortcut(press('KeyM', { alt: true, ctrl: true }))).toBeUndefined();
+  });
+
+  it('leaves character keys to text fields but not Alt combinations or Escape', () => {
+    expect(matchShortcut(press('Space', {}, input))).toBeUndefined();
+    expect(matchShortcut(press('Slash', { shift: true }, input))).toBeUndefined();
+    expect(matchShortcut(press('KeyM', { alt: true }, input))?.action).toBe('toggleMute');
+    expect(matchShortcut(press('Escape', {}, input))?.action).toBe('bargeIn');
+    expect(matchShortcut(press('Space'))?.action).toBe('pushToTalk');
+  });
+});
+
+describe('formatShortcut', () => {
+  it('labels every binding', () => {
+    expect(SHORTCUTS.map(formatShortcut)).toEqual(['Alt+Enter', 'Alt+M', 'Space', 'Esc', 'Alt+T', 'Alt+,', 'Shift+/']);
+  });
+});
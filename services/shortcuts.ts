@@ -0,0 +1,61 @@
+export type ShortcutAction =
+  | 'toggleConnection'
+  | 'toggleMute'
+  | 'pushToTalk'
+  | 'bargeIn'
+  | 'toggleTranscript'
+  | 'openSettings'
+  | 'openHandsFree';
+
+export interface Shortcut {
+  action: ShortcutAction;
+  // KeyboardEvent.code, so bindings stay put across keyboard layouts
+  code: string;
+  alt?: boolean;
+  shift?: boolean;
+  description: string;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { action: 'toggleConnection', code: 'Enter', alt: true, description: 'Start or end the conversation' },
+  { action: 'toggleMute', code: 'KeyM', alt: true, description: 'Mute or unmute the microphone' },
+  { action: 'pushToTalk', code: 'Space', description: 'Hold to talk in push-to-talk mode' },
+  { action: 'bargeIn', code: 'Escape', description: 'Stop Vox speaking' },
+  { action: 'toggleTranscript', code: 'KeyT', alt: true, description: 'Show or hide the conversation' },
+  { action: 'openSettings', code: 'Comma', alt: true, description: 'Open persona settings' },
+  { action: 'openHandsFree', code: 'Slash', shift: true, description: 'Open shortcuts and hands-free settings' },
+];
+
+const KEY_LABELS: Record<string, string> = { Enter: 'Enter', Space: 'Space', Escape: 'Esc', Comma: ',', Slash: '/' };
+
+export function formatShortcut(shortcut: Shortcut): string {
+  const key = KEY_LABELS[shortcut.code] ?? shortcut.code.replace(/^Key/, '');
+  return [shortcut.alt && 'Alt', shortcut.shift && 'Shift', key].filter(Boolean).join('+');
+}
+
+/** aria-keyshortcuts value for a control bound to the action. */
+export function ariaShortcut(action: ShortcutAction): string | undefined {
+  const shortcut = SHORTCUTS.find(s => s.action === action);
+  return shortcut && formatShortcut(shortcut).replace('Esc', 'Escape');
+}
+
+export function isTypingTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+}
+
+type ShortcutEvent = Pick<KeyboardEvent, 'code' | 'altKey' | 'shiftKey' | 'ctrlKey' | 'metaKey' | 'target'>;
+
+/**
+ * The shortcut for a key press, if any. Keys that would type a character are
+ * left alone while a text field has focus; Alt combinations and Escape are not.
+ */
+export function matchShortcut(event: ShortcutEvent, shortcuts: Shortcut[] = SHORTCUTS): Shortcut | undefined {
+  // Ctrl+Alt is AltGr on some layouts, which types characters
+  if (event.ctrlKey || event.metaKey) return undefined;
+  const shortcut = shortcuts.find(s =>
+    s.code === event.code && !!s.alt === event.altKey && !!s.shift === event.shiftKey);
+  if (!shortcut) return undefined;
+  const typesCharacter = !shortcut.alt && shortcut.code !== 'Escape';
+  return typesCharacter && isTypingTarget(event.target) ? undefined : shortcut;
+}
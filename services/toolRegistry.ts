@@ -0,0 +1,85 @@
+import { FunctionDeclaration, FunctionResponse, LiveServerToolCall, Tool } from '@google/genai';
+
+export interface ToolContext {
+  // Aborted when the server cancels the call, e.g. because the user interrupted the turn.
+  signal: AbortSignal;
+}
+
+export type ToolHandler<Args = Record<string, unknown>> = (
+  args: Args,
+  context: ToolContext,
+) => Promise<Record<string, unknown>>;
+
+export interface ToolDefinition<Args = Record<string, unknown>> {
+  declaration: FunctionDeclaration & { name: string };
+  handler: ToolHandler<Args>;
+}
+
+/**
+ * Holds the functions Vox can call during a Live session. Declarations are
+ * sent in the session config; incoming tool calls are dispatched to their
+ * handlers and answered with matching function responses.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition<any>>();
+  private pending = new Map<string, AbortController>();
+
+  register<Args>(definition: ToolDefinition<Args>): () => void {
+    const { name } = definition.declaration;
+    if (this.tools.has(name)) {
+      throw new Error(`A tool named "${name}" is already registered.`);
+    }
+    this.tools.set(name, definition);
+    return () => {
+      if (this.tools.get(name) === definition) this.tools.delete(name);
+    };
+  }
+
+  getTools(): Tool[] {
+    if (this.tools.size === 0) return [];
+    return [{ functionDeclarations: [...this.tools.values()].map(tool => tool.declaration) }];
+  }
+
+  /**
+   * Runs every call in the message concurrently. Calls cancelled by the server
+   * while running are left out of the result, since it no longer expects them.
+   */
+  async handleToolCall(toolCall: LiveServerToolCall): Promise<FunctionResponse[]> {
+    const calls = toolCall.functionCalls ?? [];
+
+    const responses = await Promise.all(calls.map(async (call): Promise<FunctionResponse | null> => {
+      const name = call.name ?? '';
+      const id = call.id ?? name;
+      const tool = this.tools.get(name);
+      if (!tool) {
+        return { id: call.id, name, response: { error: `Unknown function "${name}".` } };
+      }
+
+      const controller = new AbortController();
+      this.pending.set(id, controller);
+      try {
+        const output = await tool.handler(call.args ?? {}, { signal: controller.signal });
+        return controller.signal.aborted ? null : { id: call.id, name, response: { output } };
+      } catch (err: any) {
+        if (controller.signal.aborted) return null;
+        console.error(`Tool "${name}" failed:`, err);
+        return { id: call.id, name, response: { error: err?.message || 'The function failed.' } };
+      } finally {
+        this.pending.delete(id);
+      }
+    }));
+
+    return responses.filter((response): response is FunctionResponse => response !== null);
+  }
+
+  cancel(ids: string[]) {
+    ids.forEach(id => {
+      this.pending.get(id)?.abort();
+      this.pending.delete(id);
+    });
+  }
+
+  cancelAll() {
+    this.cancel([...this.pending.keys()]);
+  }
+}
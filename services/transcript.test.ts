@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { appendTranscript, appendTypedTurn, completeTurns } from './transcript';
+
+describe('appendTranscript', () => {
+  it('merges fragments into the open turn of the same speaker', () => {
+    let entries = appendTranscript([], 'user', 'Hello');
+    entries = appendTranscript(entries, 'user', ' there');
+    expect(entries.map(entry => entry.text)).toEqual(['Hello there']);
+  });
+
+  it('closes the user turn once the model answers', () => {
+    let entries = appendTranscript([], 'user', 'Hi');
+    entries = appendTranscript(entries, 'model', 'Hello');
+    expect(entries.map(entry => [entry.role, entry.complete])).toEqual([['user', true], ['model', false]]);
+  });
+});
+
+describe('completeTurns', () => {
+  it('only closes and flags model turns on interruption', () => {
+    let entries = appendTranscript([], 'model', 'Once upon');
+    entries = appendTranscript(entries, 'user', 'Stop');
+    entries = completeTurns(entries, { interrupted: true });
+    expect(entries[0]).toMatchObject({ complete: true, interrupted: true });
+    expect(entries[1]).toMatchObject({ complete: false });
+  });
+});
+
+describe('appendTypedTurn', () => {
+  it('adds a complete, typed user turn', () => {
+    const entries = appendTypedTurn([], 'What time is it?');
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ role: 'user', text: 'What time is it?', complete: true, typed: true });
+  });
+
+  it('ends an open spoken turn instead of merging into it', () => {
+    let entries = appendTranscript([], 'user', 'Um');
+    entries = appendTypedTurn(entries, 'Never mind, read my notes');
+    entries = appendTranscript(entries, 'user', ' hello');
+    expect(entries.map(entry => entry.text)).toEqual(['Um', 'Never mind, read my notes', ' hello']);
+    expect(entries[0].complete).toBe(true);
+  });
+});
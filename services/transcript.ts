@@ -0,0 +1,78 @@
+import { TranscriptionEntry } from '../types';
+
+let nextEntryId = 0;
+
+const createEntry = (role: TranscriptionEntry['role'], text: string): TranscriptionEntry => {
+  const now = Date.now();
+  return {
+    id: `turn-${now}-${nextEntryId++}`,
+    role,
+    text,
+    startedAt: now,
+    updatedAt: now,
+    complete: false,
+  };
+};
+
+/**
+ * Merges a partial transcript into the log. Fragments are appended to the open
+ * turn of the same speaker. Input and output transcripts arrive independently,
+ * so a late user fragment still lands in the user turn it belongs to.
+ */
+export function appendTranscript(
+  entries: TranscriptionEntry[],
+  role: TranscriptionEntry['role'],
+  text: string,
+): TranscriptionEntry[] {
+  if (!text) return entries;
+
+  let openIndex = -1;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].role === role && !entries[i].complete) {
+      openIndex = i;
+      break;
+    }
+  }
+
+  if (openIndex >= 0) {
+    const next = [...entries];
+    next[openIndex] = { ...entries[openIndex], text: entries[openIndex].text + text, updatedAt: Date.now() };
+    return next;
+  }
+
+  // Once the model starts answering, the user's turn is over.
+  const closed = role === 'model'
+    ? entries.map(entry => (entry.role === 'user' && !entry.complete ? { ...entry, complete: true } : entry))
+    : entries;
+  return [...closed, createEntry(role, text)];
+}
+
+/**
+ * Closes open turns. An interruption only ends the model's turn, flagging it
+ * so the panel can show that Vox was cut off; the user is still speaking.
+ */
+export function completeTurns(
+  entries: TranscriptionEntry[],
+  options: { interrupted?: boolean } = {},
+): TranscriptionEntry[] {
+  const shouldClose = (entry: TranscriptionEntry) =>
+    !entry.complete && (!options.interrupted || entry.role === 'model');
+
+  if (!entries.some(shouldClose)) return entries;
+
+  return entries.map(entry => {
+    if (!shouldClose(entry)) return entry;
+    return options.interrupted
+      ? { ...entry, complete: true, interrupted: true }
+      : { ...entry, complete: true };
+  });
+}
+
+/**
+ * Adds a message typed in the composer. It arrives whole, so it is complete
+ * from the start and ends any spoken user turn still open before it.
+ */
+export function appendTypedTurn(entries: TranscriptionEntry[], text: string): TranscriptionEntry[] {
+  const closed = entries.map(entry => (entry.role === 'user' && !entry.complete ? { ...entry, complete: true } : entry));
+  return [...closed, { ...createEntry('user', text), complete: true, typed: true }];
+}
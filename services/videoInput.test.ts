@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_VIDEO_SETTINGS, FrameSampler, SampledFrame, fitWithin, loadVideoSettings } from './videoInput';
+
+describe('fitWithin', () => {
+  it('scales the longest edge down and keeps the aspect ratio', () => {
+    expect(fitWithin(1920, 1080, 768)).toEqual({ width: 768, height: 432 });
+    expect(fitWithin(1080, 1920, 768)).toEqual({ width: 432, height: 768 });
+  });
+
+  it('never scales frames up', () => {
+    expect(fitWithin(640, 480, 1024)).toEqual({ width: 640, height: 480 });
+  });
+});
+
+describe('loadVideoSettings', () => {
+  const values = new Map<string, string>();
+
+  beforeEach(() => {
+    values.clear();
+    vi.stubGlobal('localStorage', { getItem: (key: string) => values.get(key) ?? null });
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('keeps a saved rate and resolution from the offered options', () => {
+    values.set('vox.video', JSON.stringify({ frameRate: 2, maxDimension: 1024, quality: 0.1 }));
+    expect(loadVideoSettings()).toEqual({ ...DEFAULT_VIDEO_SETTINGS, frameRate: 2, maxDimension: 1024 });
+  });
+
+  it('falls back to the defaults for anything else', () => {
+    expect(loadVideoSettings()).toEqual(DEFAULT_VIDEO_SETTINGS);
+    values.set('vox.video', JSON.stringify({ frameRate: 30, maxDimension: 1024 }));
+    expect(loadVideoSettings()).toEqual(DEFAULT_VIDEO_SETTINGS);
+    values.set('vox.video', '{');
+    expect(loadVideoSettings()).toEqual(DEFAULT_VIDEO_SETTINGS);
+  });
+});
+
+describe('FrameSampler', () => {
+  // toBlob callbacks are held until the test finishes the encode
+  let pendingEncodes: ((blob: Blob | null) => void)[];
+  let drawn: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    pendingEncodes = [];
+    drawn = 0;
+    vi.stubGlobal('HTMLMediaElement', { HAVE_CURRENT_DATA: 2 });
+    vi.stubGlobal('document', {
+      createElement: (tag: string) => (tag === 'video'
+        ? { readyState: 4, videoWidth: 1280, videoHeight: 720, play: async () => {}, pause: () => {} }
+        : {
+          getContext: () => ({ drawImage: () => drawn++ }),
+          toBlob: (resolve: (blob: Blob | null) => void) => pendingEncodes.push(resolve),
+        }),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const startSampler = async () => {
+    const sampler = new FrameSampler({} as MediaStream, { ...DEFAULT_VIDEO_SETTINGS, frameRate: 1 });
+    const frames: SampledFrame[] = [];
+    sampler.onFrame = frame => frames.push(frame);
+    await sampler.start();
+    return { sampler, frames };
+  };
+
+  const finishEncode = async () => {
+    pendingEncodes.shift()?.(new Blob([new Uint8Array([1, 2, 3])]));
+    await vi.advanceTimersByTimeAsync(0);
+  };
+
+  it('skips ticks while the previous frame is still encoding', async () => {
+    const { sampler, frames } = await startSampler();
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(drawn).toBe(1);
+
+    await finishEncode();
+    expect(frames).toHaveLength(1);
+    expect(frames[0]).toMatchObject({ data: 'AQID', mimeType: 'image/jpeg', width: 768, height: 432, bytes: 3 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(drawn).toBe(2);
+    sampler.stop();
+  });
+
+  it('sends nothing while paused, including a frame that was encoding when it paused', async () => {
+    const { sampler, frames } = await startSampler();
+    await vi.advanceTimersByTimeAsync(1000);
+    sampler.setPaused(true);
+    await finishEncode();
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(frames).toHaveLength(0);
+    expect(drawn).toBe(1);
+
+    sampler.setPaused(false);
+    await vi.advanceTimersByTimeAsync(1000);
+    await finishEncode();
+    expect(frames).toHaveLength(1);
+    sampler.stop();
+  });
+});
@@ -0,0 +1,127 @@
+import { encode } from './audioUtils';
+
+export type VideoSource = 'camera' | 'screen';
+
+export interface VideoSettings {
+  // Frames sent per second.
+  frameRate: number;
+  // Longest edge of a sent frame in pixels; frames are never scaled up.
+  maxDimension: number;
+  // JPEG quality from 0 to 1.
+  quality: number;
+}
+
+export const FRAME_RATE_OPTIONS = [0.5, 1, 2];
+export const RESOLUTION_OPTIONS = [512, 768, 1024];
+
+// The Live API looks at about one frame a second, so more mostly costs bandwidth
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = { frameRate: 1, maxDimension: 768, quality: 0.7 };
+
+const VIDEO_SETTINGS_STORAGE_KEY = 'vox.video';
+
+export function loadVideoSettings(): VideoSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(VIDEO_SETTINGS_STORAGE_KEY) ?? 'null');
+    if (stored && FRAME_RATE_OPTIONS.includes(stored.frameRate) && RESOLUTION_OPTIONS.includes(stored.maxDimension)) {
+      return { ...DEFAULT_VIDEO_SETTINGS, frameRate: stored.frameRate, maxDimension: stored.maxDimension };
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_VIDEO_SETTINGS;
+}
+
+export function saveVideoSettings(settings: VideoSettings) {
+  localStorage.setItem(VIDEO_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** Scales a frame down to fit within maxDimension, keeping its aspect ratio. */
+export function fitWithin(width: number, height: number, maxDimension: number) {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+export async function openVideoSource(source: VideoSource): Promise<MediaStream> {
+  if (source === 'screen') {
+    if (!navigator.mediaDevices?.getDisplayMedia) throw new Error('This browser cannot share the screen.');
+    return navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+  }
+  if (!navigator.mediaDevices?.getUserMedia) throw new Error('This browser cannot use the camera.');
+  return navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user' }, audio: false });
+}
+
+export interface SampledFrame {
+  // Base64 JPEG, ready for sendRealtimeInput({ video }).
+  data: string;
+  mimeType: 'image/jpeg';
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+/**
+ * Samples a video stream at a fixed rate and encodes each frame as JPEG.
+ * A frame is skipped rather than queued while the previous one is still encoding.
+ */
+export class FrameSampler {
+  onFrame: ((frame: SampledFrame) => void) | null = null;
+
+  private readonly video = document.createElement('video');
+  private readonly canvas = document.createElement('canvas');
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private encoding = false;
+  private paused = false;
+
+  constructor(stream: MediaStream, private settings: VideoSettings) {
+    this.video.srcObject = stream;
+    this.video.muted = true;
+    this.video.playsInline = true;
+  }
+
+  async start() {
+    await this.video.play();
+    this.schedule();
+  }
+
+  setSettings(settings: VideoSettings) {
+    this.settings = settings;
+    if (this.timer) this.schedule();
+  }
+
+  setPaused(paused: boolean) {
+    this.paused = paused;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.video.pause();
+    this.video.srcObject = null;
+  }
+
+  private schedule() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = setInterval(() => void this.capture(), 1000 / this.settings.frameRate);
+  }
+
+  private async capture() {
+    const { video, canvas, settings } = this;
+    if (this.paused || this.encoding || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+
+    const { width, height } = fitWithin(video.videoWidth, video.videoHeight, settings.maxDimension);
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, width, height);
+
+    this.encoding = true;
+    try {
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', settings.quality));
+      // Stopped or paused while encoding
+      if (!blob || !this.timer || this.paused) return;
+      const data = encode(new Uint8Array(await blob.arrayBuffer()));
+      this.onFrame?.({ data, mimeType: 'image/jpeg', width, height, bytes: blob.size });
+    } finally {
+      this.encoding = false;
+    }
+  }
+}
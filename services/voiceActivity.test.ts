@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_VAD_SETTINGS, InputGate, VoiceActivityDetector } from './voiceActivity';
+
+const SAMPLE_RATE = 16000;
+// 20 ms frames: the default attack is 3 frames and the hangover 25
+const FRAME_LENGTH = 320;
+
+const silence = () => new Float32Array(FRAME_LENGTH);
+const tone = () => Float32Array.from(
+  { length: FRAME_LENGTH },
+  (_, i) => 0.3 * Math.sin(2 * Math.PI * 200 * i / SAMPLE_RATE),
+);
+
+describe('VoiceActivityDetector', () => {
+  const detect = (frames: Float32Array[]) => {
+    const detector = new VoiceActivityDetector(DEFAULT_VAD_SETTINGS, SAMPLE_RATE);
+    return frames.map(frame => detector.process(frame));
+  };
+
+  it('stays quiet through silence and hiss', () => {
+    const hiss = Float32Array.from({ length: FRAME_LENGTH }, (_, i) => (i % 2 ? 0.3 : -0.3));
+    expect(detect(Array.from({ length: 10 }, silence))).not.toContain(true);
+    expect(detect(Array.from({ length: 10 }, () => hiss))).not.toContain(true);
+  });
+
+  it('ignores a click shorter than the attack', () => {
+    expect(detect([tone(), tone(), ...Array.from({ length: 10 }, silence)])).not.toContain(true);
+  });
+
+  it('starts once a tone outlasts the attack', () => {
+    expect(detect([silence(), tone(), tone(), tone(), tone()])).toEqual([false, false, false, true, true]);
+  });
+
+  it('holds through the hangover before ending', () => {
+    const speaking = detect([...Array.from({ length: 5 }, tone), ...Array.from({ length: 30 }, silence)]);
+    const silentFramesSpoken = speaking.slice(5).filter(Boolean).length;
+    expect(silentFramesSpoken).toBe(DEFAULT_VAD_SETTINGS.hangoverMs / 20 - 1);
+    expect(speaking.at(-1)).toBe(false);
+  });
+});
+
+describe('InputGate', () => {
+  const PRE_ROLL_FRAMES = 5;
+
+  function createGate() {
+    const events: (string | Float32Array)[] = [];
+    const gate = new InputGate(
+      'vad',
+      {
+        sendAudio: frame => events.push(frame),
+        activityStart: () => events.push('activityStart'),
+        activityEnd: () => events.push('activityEnd'),
+      },
+      { vad: DEFAULT_VAD_SETTINGS, sampleRate: SAMPLE_RATE, preRollFrames: PRE_ROLL_FRAMES },
+    );
+    const changes: boolean[] = [];
+    gate.onActivityChange = active => changes.push(active);
+    return { gate, events, changes };
+  }
+
+  it('sends nothing for silence or a click', () => {
+    const { gate, events } = createGate();
+    [silence(), tone(), tone(), silence(), silence()].forEach(frame => gate.process(frame));
+    expect(events).toEqual([]);
+    expect(gate.isActive).toBe(false);
+  });
+
+  it('replays the pre-roll after activityStart, then streams until activityEnd', () => {
+    const { gate, events, changes } = createGate();
+    const leadIn = Array.from({ length: 8 }, silence);
+    const speech = Array.from({ length: 6 }, tone);
+    const trailing = Array.from({ length: 30 }, silence);
+    [...leadIn, ...speech, ...trailing].forEach(frame => gate.process(frame));
+
+    // Onset is detected on the third tone frame; the frames before it are replayed first
+    const preRoll = [...leadIn, ...speech].slice(8 + 2 - PRE_ROLL_FRAMES, 8 + 2);
+    expect(events[0]).toBe('activityStart');
+    preRoll.forEach((frame, i) => expect(events[1 + i]).toBe(frame));
+    expect(events[1 + PRE_ROLL_FRAMES]).toBe(speech[2]);
+
+    // The utterance ends after the hangover, with the last silent frame still sent
+    const hangoverFrames = DEFAULT_VAD_SETTINGS.hangoverMs / 20;
+    expect(events.at(-1)).toBe('activityEnd');
+    expect(events.at(-2)).toBe(trailing[hangoverFrames - 1]);
+    expect(events.filter(event => event === 'activityStart')).toHaveLength(1);
+    expect(events).toHaveLength(1 + PRE_ROLL_FRAMES + 4 + hangoverFrames + 1);
+    expect(changes).toEqual([true, false]);
+  });
+
+  it('ends an utterance in progress when released', () => {
+    const { gate, events, changes } = createGate();
+    Array.from({ length: 4 }, tone).forEach(frame => gate.process(frame));
+    gate.release();
+
+    expect(events.at(-1)).toBe('activityEnd');
+    expect(changes).toEqual([true, false]);
+    gate.process(silence());
+    expect(events.at(-1)).toBe('activityEnd');
+  });
+});
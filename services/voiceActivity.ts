@@ -0,0 +1,189 @@
+import { InputMode, InputSettings, VadSettings } from '../types';
+
+const INPUT_SETTINGS_STORAGE_KEY = 'vox.inputSettings';
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  energyThreshold: 0.02,
+  maxZeroCrossingRate: 0.35,
+  attackMs: 60,
+  hangoverMs: 500,
+};
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  mode: 'open',
+  vad: DEFAULT_VAD_SETTINGS,
+};
+
+export const INPUT_MODES: { value: InputMode; label: string }[] = [
+  { value: 'open', label: 'Open Mic' },
+  { value: 'push-to-talk', label: 'Push to Talk' },
+  { value: 'vad', label: 'Voice Detect' },
+];
+
+export function loadInputSettings(): InputSettings {
+  try {
+    const raw = localStorage.getItem(INPUT_SETTINGS_STORAGE_KEY);
+    if (raw) {
+      const stored = JSON.parse(raw);
+      return {
+        mode: INPUT_MODES.some(option => option.value === stored.mode) ? stored.mode : DEFAULT_INPUT_SETTINGS.mode,
+        vad: { ...DEFAULT_VAD_SETTINGS, ...stored.vad },
+      };
+    }
+  } catch (err) {
+    console.warn('Ignoring unreadable input settings:', err);
+  }
+  return DEFAULT_INPUT_SETTINGS;
+}
+
+export function saveInputSettings(settings: InputSettings) {
+  localStorage.setItem(INPUT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function rootMeanSquare(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return frame.length ? Math.sqrt(sum / frame.length) : 0;
+}
+
+export function zeroCrossingRate(frame: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) crossings++;
+  }
+  return frame.length > 1 ? crossings / (frame.length - 1) : 0;
+}
+
+/**
+ * Frame-based energy/zero-crossing speech detector. A short attack rejects
+ * clicks and the hangover keeps pauses between words inside one utterance.
+ */
+export class VoiceActivityDetector {
+  private speaking = false;
+  private voicedMs = 0;
+  private silentMs = 0;
+
+  constructor(private readonly settings: VadSettings, private readonly sampleRate: number) {}
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  process(frame: Float32Array): boolean {
+    const frameMs = frame.length / this.sampleRate * 1000;
+    const voiced = rootMeanSquare(frame) >= this.settings.energyThreshold
+      && zeroCrossingRate(frame) <= this.settings.maxZeroCrossingRate;
+
+    if (voiced) {
+      this.voicedMs += frameMs;
+      this.silentMs = 0;
+    } else {
+      this.silentMs += frameMs;
+      if (!this.speaking) this.voicedMs = 0;
+    }
+
+    if (!this.speaking && this.voicedMs >= this.settings.attackMs) {
+      this.speaking = true;
+    } else if (this.speaking && this.silentMs >= this.settings.hangoverMs) {
+      this.speaking = false;
+      this.voicedMs = 0;
+    }
+    return this.speaking;
+  }
+
+  reset() {
+    this.speaking = false;
+    this.voicedMs = 0;
+    this.silentMs = 0;
+  }
+}
+
+export interface InputGateSink {
+  sendAudio: (frame: Float32Array) => void;
+  activityStart: () => void;
+  activityEnd: () => void;
+}
+
+/**
+ * Decides which capture frames reach the session for the selected input
+ * mode. In push-to-talk and VAD modes the server's own activity detection is
+ * off, so the gate marks the start and end of each utterance itself.
+ */
+export class InputGate {
+  private active = false;
+  private pushToTalkHeld = false;
+  private preRoll: Float32Array[] = [];
+  private readonly vad: VoiceActivityDetector | null;
+  private readonly preRollFrames: number;
+
+  onActivityChange: ((active: boolean) => void) | null = null;
+
+  constructor(
+    readonly mode: InputMode,
+    private readonly sink: InputGateSink,
+    options: { vad: VadSettings; sampleRate: number; preRollFrames: number },
+  ) {
+    this.vad = mode === 'vad' ? new VoiceActivityDetector(options.vad, options.sampleRate) : null;
+    this.preRollFrames = options.preRollFrames;
+  }
+
+  get isActive() {
+    return this.active;
+  }
+
+  process(frame: Float32Array) {
+    switch (this.mode) {
+      case 'open':
+        this.sink.sendAudio(frame);
+        return;
+      case 'push-to-talk':
+        if (this.active) this.sink.sendAudio(frame);
+        return;
+      case 'vad': {
+        const speaking = this.vad!.process(frame);
+        if (speaking && !this.active) {
+          // Detection lags the onset by the attack time, so replay the frames just before it
+          this.start();
+          this.preRoll.forEach(buffered => this.sink.sendAudio(buffered));
+          this.preRoll = [];
+        }
+        if (this.active) {
+          this.sink.sendAudio(frame);
+          if (!speaking) this.end();
+        } else {
+          this.preRoll.push(frame);
+          if (this.preRoll.length > this.preRollFrames) this.preRoll.shift();
+        }
+      }
+    }
+  }
+
+  setPushToTalk(held: boolean) {
+    if (this.mode !== 'push-to-talk' || held === this.pushToTalkHeld) return;
+    this.pushToTalkHeld = held;
+    if (held) this.start();
+    else this.end();
+  }
+
+  /** Ends any utterance in progress, e.g. when the mic is muted. */
+  release() {
+    this.pushToTalkHeld = false;
+    this.preRoll = [];
+    this.vad?.reset();
+    this.end();
+  }
+
+  private start() {
+    if (this.active) return;
+    this.active = true;
+    this.sink.activityStart();
+    this.onActivityChange?.(true);
+  }
+
+  private end() {
+    if (!this.active) return;
+    this.active = false;
+    this.sink.activityEnd();
+    this.onActivityChange?.(false);
+  }
+}
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionStatus, Modality } from '../types';
+import { startAudioCapture } from './audioCapture';
+import { openMicrophone } from './audioDevices';
+import {
+  MockLiveScript,
+  MockLiveTransport,
+  mockAudioChunk,
+  mockInputTranscript,
+  mockMessage,
+  mockOutputTranscript,
+  mockToolCall,
+  mockTurnComplete,
+  toneSamples,
+} from './mockLiveTransport';
+import { DEFAULT_PERSONA } from './personaStore';
+import { VoxClient, VoxClientOptions } from './voxClient';
+
+// The browser audio graph is replaced: capture hands its frame callback to the test, and levels are not metered
+vi.mock('./audioCapture', () => ({ startAudioCapture: vi.fn() }));
+vi.mock('./audioDevices', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./audioDevices')>(),
+  openMicrophone: vi.fn(),
+}));
+vi.mock('./audioLevels', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./audioLevels')>(),
+  createLevelAnalyser: () => ({}),
+  startLevelLoop: () => () => {},
+}));
+
+class FakeParam {
+  value = 1;
+  cancelScheduledValues() {}
+  setValueAtTime() {}
+  linearRampToValueAtTime() {}
+}
+
+// Just enough of AudioContext for PlaybackEngine; time stands still
+class FakeAudioContext {
+  currentTime = 0;
+  destination = {};
+  createGain() {
+    return { gain: new FakeParam(), connect() {}, disconnect() {} };
+  }
+  createBufferSource() {
+    return { buffer: null, connect() {}, start() {}, stop() {}, addEventListener() {} };
+  }
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    const data = new Float32Array(length);
+    return { length, sampleRate, duration: length / sampleRate, getChannelData: () => data };
+  }
+  close() {
+    return Promise.resolve();
+  }
+}
+
+const fakeStream = () => {
+  const track = { stop: vi.fn() };
+  return { track, stream: { getTracks: () => [track] } as unknown as MediaStream };
+};
+
+let sendFrame: (frame: Float32Array) => void;
+
+beforeEach(() => {
+  vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+  vi.mocked(openMicrophone).mockImplementation(async () => fakeStream().stream);
+  vi.mocked(startAudioCapture).mockImplementation(async (_ctx, _stream, _options, onFrame) => {
+    sendFrame = onFrame;
+    return { node: {}, input: {}, setStream: () => {}, stop: () => {} } as unknown as Awaited<ReturnType<typeof startAudioCapture>>;
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+function createClient(scripts: MockLiveScript[], options: Partial<VoxClientOptions> = {}) {
+  const transport = new MockLiveTransport(scripts);
+  const client = new VoxClient({ transport, builtinTools: false, ...options });
+  const statuses: ConnectionStatus[] = [];
+  client.on('status', status => statuses.push(status));
+  return { client, transport, statuses };
+}
+
+describe('VoxClient', () => {
+  it('connects with the persona and voice, and builds the transcript from server messages', async () => {
+    const persona = { ...DEFAULT_PERSONA, instructions: 'You are a museum guide.', voice: 'Puck' };
+    const { client, transport, statuses } = createClient([{
+      steps: [
+        { kind: 'message', message: mockInputTranscript('Where is the café?') },
+        { kind: 'message', message: mockAudioChunk(toneSamples(220, 40)) },
+        { kind: 'message', message: mockOutputTranscript('On the ground floor.') },
+        { kind: 'message', message: mockTurnComplete() },
+      ],
+    }], { persona });
+
+    await client.connect();
+    await vi.waitFor(() => expect(client.transcript[1]?.complete).toBe(true));
+
+    expect(statuses).toEqual(['connecting', 'connected']);
+    const config = transport.sessions[0].params.config!;
+    expect(config.systemInstruction).toContain('You are a museum guide.');
+    expect(config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName).toBe('Puck');
+    expect(client.transcript.map(({ role, text }) => ({ role, text }))).toEqual([
+      { role: 'user', text: 'Where is the café?' },
+      { role: 'model', text: 'On the ground floor.' },
+    ]);
+    client.dispose();
+  });
+
+  it('asks for text replies without the voice-only rules in text-only mode', async () => {
+    const { client, transport } = createClient([{
+      steps: [
+        { kind: 'message', message: mockMessage({ serverContent: { modelTurn: { parts: [{ text: 'Here is a list:' }] } } }) },
+        { kind: 'message', message: mockTurnComplete() },
+      ],
+    }], { responseModality: Modality.TEXT });
+
+    await client.connect();
+    await vi.waitFor(() => expect(client.transcript).toHaveLength(1));
+
+    const config = transport.sessions[0].params.config!;
+    expect(config.responseModalities).toEqual([Modality.TEXT]);
+    expect(config.speechConfig).toBeUndefined();
+    expect(config.systemInstruction).toContain('OVERRIDES ANY VOICE-ONLY RULES');
+    expect(client.transcript[0]).toMatchObject({ role: 'model', text: 'Here is a list:' });
+    client.dispose();
+  });
+
+  it('answers tool calls with the registered tools', async () => {
+    const { client, transport } = createClient([{
+      steps: [{ kind: 'message', message: mockToolCall([{ id: 'call-1', name: 'lookup_room', args: { name: 'café' } }]) }],
+    }], {
+      tools: [{
+        declaration: { name: 'lookup_room', description: 'Finds a room.' },
+        handler: async ({ name }) => ({ room: `${name}: ground floor` }),
+      }],
+    });
+
+    await client.connect();
+    const session = transport.sessions[0];
+    expect(session.params.config?.tools).toMatchObject([{ functionDeclarations: [{ name: 'lookup_room' }] }]);
+    await vi.waitFor(() => expect(session.sent.some(event => event.type === 'toolResponse')).toBe(true));
+    expect(session.sent.find(event => event.type === 'toolResponse')).toMatchObject({
+      params: { functionResponses: [{ id: 'call-1', name: 'lookup_room', response: { output: { room: 'café: ground floor' } } }] },
+    });
+    client.dispose();
+  });
+
+  it('streams microphone audio and typed text, but no audio while muted', async () => {
+    const { client, transport } = createClient([{ steps: [] }]);
+    await client.connect();
+    const session = transport.sessions[0];
+
+    sendFrame(new Float32Array(320));
+    client.setMuted(true);
+    sendFrame(new Float32Array(320));
+    client.sendText('Hello there');
+
+    expect(session.sent.map(event => event.type)).toEqual(['realtimeInput', 'clientContent']);
+    expect(client.transcript[0]).toMatchObject({ role: 'user', text: 'Hello there' });
+    client.dispose();
+  });
+
+  it('releases the microphone when disconnected before it opens', async () => {
+    const { track, stream } = fakeStream();
+    let grant: (stream: MediaStream) => void = () => {};
+    vi.mocked(openMicrophone).mockImplementationOnce(() => new Promise(resolve => {
+      grant = resolve;
+    }));
+    const { client, transport, statuses } = createClient([{ steps: [] }]);
+
+    const connecting = client.connect();
+    client.disconnect();
+    grant(stream);
+    await connecting;
+
+    expect(track.stop).toHaveBeenCalled();
+    expect(transport.sessions).toHaveLength(0);
+    expect(statuses).toEqual(['connecting', 'disconnected']);
+  });
+});
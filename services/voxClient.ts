@@ -0,0 +1,385 @@
+import { LiveServerMessage } from '@google/genai';
+import {
+  ConnectionStatus,
+  InputMode,
+  LanguageSettings,
+  Modality,
+  Persona,
+  SessionSettings,
+  TranscriptionEntry,
+  VadSettings,
+} from '../types';
+import { createPcmBlob } from './audioUtils';
+import { AudioCapture, startAudioCapture } from './audioCapture';
+import { AudioDeviceSettings, DEFAULT_AUDIO_DEVICE_SETTINGS, openMicrophone, setOutputDevice } from './audioDevices';
+import { AudioLevels, SILENT_LEVELS, createLevelAnalyser, startLevelLoop } from './audioLevels';
+import { PlaybackEngine } from './playbackEngine';
+import { LiveConnectionManager } from './liveConnection';
+import { LiveTransport, createEphemeralTokenTransport } from './liveTransport';
+import { LIVE_TOKEN_ENDPOINT } from './liveAuth';
+import { ToolDefinition, ToolRegistry } from './toolRegistry';
+import { registerBuiltinTools } from './builtinTools';
+import { appendTypedTurn, completeTurns } from './transcript';
+import { DEFAULT_PERSONA } from './personaStore';
+import { DEFAULT_LANGUAGE_SETTINGS, resolveVoice } from './languages';
+import { DEFAULT_SESSION_SETTINGS, resolveModel } from './sessionSettings';
+import {
+  CAPTURE_FRAME_MS,
+  SAMPLE_RATE_IN,
+  SAMPLE_RATE_OUT,
+  VAD_PRE_ROLL_MS,
+  buildLiveConfig,
+  handleLiveMessage,
+} from './liveSession';
+import { DEFAULT_VAD_SETTINGS, InputGate } from './voiceActivity';
+
+export interface VoxClientOptions {
+  persona: Persona;
+  responseModality: Modality;
+  inputMode: InputMode;
+  vad: VadSettings;
+  language: LanguageSettings;
+  session: SessionSettings;
+  audioDevices: AudioDeviceSettings;
+  // Token server endpoint; ignored when a transport is given.
+  tokenEndpoint: string;
+  // Replaces the token server, e.g. with a MockLiveTransport.
+  transport?: LiveTransport;
+  // Tools registered next to the built-in ones.
+  tools: ToolDefinition<any>[];
+  builtinTools: boolean;
+}
+
+export const DEFAULT_VOX_CLIENT_OPTIONS: VoxClientOptions = {
+  persona: DEFAULT_PERSONA,
+  responseModality: Modality.AUDIO,
+  inputMode: 'open',
+  vad: DEFAULT_VAD_SETTINGS,
+  language: DEFAULT_LANGUAGE_SETTINGS,
+  session: DEFAULT_SESSION_SETTINGS,
+  audioDevices: DEFAULT_AUDIO_DEVICE_SETTINGS,
+  tokenEndpoint: LIVE_TOKEN_ENDPOINT,
+  tools: [],
+  builtinTools: true,
+};
+
+/** Event names and the value each listener receives. */
+export interface VoxClientEvents {
+  status: ConnectionStatus;
+  // The model's audio is playing.
+  speaking: boolean;
+  levels: AudioLevels;
+  transcript: TranscriptionEntry[];
+  // In push-to-talk and VAD modes, whether the user's audio is being sent.
+  voiceActivity: boolean;
+  muted: boolean;
+  error: string;
+  // Every raw server message, for anything the other events do not cover.
+  message: LiveServerMessage;
+}
+
+export type VoxClientListener<K extends keyof VoxClientEvents> = (value: VoxClientEvents[K]) => void;
+
+/**
+ * Headless Vox: owns the microphone, playback, level metering and the Live
+ * session, and reports everything through typed events. The React hook and
+ * the <vox-assistant> element are both views over one of these.
+ */
+export class VoxClient {
+  private options: VoxClientOptions;
+  private readonly listeners = new Map<keyof VoxClientEvents, Set<(value: any) => void>>();
+  private readonly toolRegistry = new ToolRegistry();
+  private readonly unregisterTools: (() => void)[] = [];
+
+  private inputCtx: AudioContext | null = null;
+  private outputCtx: AudioContext | null = null;
+  private stream: MediaStream | null = null;
+  private capture: AudioCapture | null = null;
+  private playback: PlaybackEngine | null = null;
+  private connection: LiveConnectionManager | null = null;
+  private gate: InputGate | null = null;
+  private stopLevels: (() => void) | null = null;
+  // Set by interrupt(): the rest of the current reply is dropped until the model ends its turn
+  private readonly suppressReply = { current: false };
+  // Bumped on every connect and teardown so a superseded connect stops quietly
+  private attempt = 0;
+
+  private _status: ConnectionStatus = 'disconnected';
+  private _speaking = false;
+  private _muted = false;
+  private _levels: AudioLevels = SILENT_LEVELS;
+  private _transcript: TranscriptionEntry[] = [];
+
+  constructor(options: Partial<VoxClientOptions> = {}) {
+    this.options = { ...DEFAULT_VOX_CLIENT_OPTIONS, ...options };
+    this.registerTools();
+  }
+
+  get status() {
+    return this._status;
+  }
+
+  get isSpeaking() {
+    return this._speaking;
+  }
+
+  get isMuted() {
+    return this._muted;
+  }
+
+  get levels() {
+    return this._levels;
+  }
+
+  get transcript() {
+    return this._transcript;
+  }
+
+  get isConnected() {
+    return this._status === 'connected' || this._status === 'reconnecting';
+  }
+
+  /** Subscribes to an event. Returns a function that unsubscribes. */
+  on<K extends keyof VoxClientEvents>(event: K, listener: VoxClientListener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof VoxClientEvents>(event: K, listener: VoxClientListener<K>) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /** Changes options. Anything that shapes the session applies from the next connection. */
+  configure(options: Partial<VoxClientOptions>) {
+    const toolsChanged = 'tools' in options || 'builtinTools' in options;
+    this.options = { ...this.options, ...options };
+    if (toolsChanged) this.registerTools();
+  }
+
+  async connect() {
+    if (this._status === 'connecting' || this.isConnected) return;
+    const { options } = this;
+    const attempt = ++this.attempt;
+    try {
+      this.setStatus('connecting');
+      this.suppressReply.current = false;
+
+      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE_OUT });
+      this.inputCtx = inputCtx;
+      this.outputCtx = outputCtx;
+      const outputNode = outputCtx.createGain();
+      outputNode.connect(outputCtx.destination);
+      const playback = new PlaybackEngine(outputCtx, outputNode, { sampleRate: SAMPLE_RATE_OUT });
+      playback.onSpeakingChange = (speaking) => {
+        this._speaking = speaking;
+        this.emit('speaking', speaking);
+      };
+      this.playback = playback;
+      if (options.audioDevices.outputDeviceId) {
+        await setOutputDevice(outputCtx, options.audioDevices.outputDeviceId)
+          .catch(err => console.warn('Could not select the speaker, using the default output:', err));
+      }
+
+      const stream = await openMicrophone(options.audioDevices);
+      if (attempt !== this.attempt) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      this.stream = stream;
+      const capture = await startAudioCapture(
+        inputCtx,
+        stream,
+        { targetSampleRate: SAMPLE_RATE_IN, frameDurationMs: CAPTURE_FRAME_MS },
+        (frame) => {
+          if (!this._muted) this.gate?.process(frame);
+        },
+      );
+      // Disconnected while the worklet module was loading
+      if (attempt !== this.attempt) {
+        capture.stop();
+        return;
+      }
+      this.capture = capture;
+      this.stopLevels = startLevelLoop({
+        input: createLevelAnalyser(inputCtx, capture.input),
+        output: createLevelAnalyser(outputCtx, outputNode),
+        isInputMuted: () => this._muted,
+        onFrame: () => {},
+        onChange: (levels) => {
+          this._levels = levels;
+          this.emit('levels', levels);
+        },
+      });
+
+      const textOnly = options.responseModality === Modality.TEXT;
+      const model = resolveModel(options.session, options.responseModality);
+      const connection = new LiveConnectionManager({
+        transport: options.transport ?? createEphemeralTokenTransport(options.tokenEndpoint),
+        model,
+        getConfig: () => buildLiveConfig({
+          persona: options.persona,
+          responseModality: options.responseModality,
+          language: options.language,
+          session: options.session,
+          model,
+          voice: options.session.voice || resolveVoice(options.persona.voice, options.language),
+          serverActivityDetection: options.inputMode === 'open',
+          tools: this.toolRegistry.getTools(),
+        }),
+        onStatusChange: (status, error) => {
+          if (status === 'error') {
+            this.fail(error || 'A connection error occurred. Please try again.');
+            return;
+          }
+          // Calls from a dropped session can no longer be answered
+          if (status === 'reconnecting') this.toolRegistry.cancelAll();
+          this.setStatus(status);
+        },
+        onMessage: (message) => {
+          handleLiveMessage(message, {
+            textOnly,
+            playback,
+            toolRegistry: this.toolRegistry,
+            suppressReply: this.suppressReply,
+            updateTranscript: update => this.setTranscript(update(this._transcript)),
+            sendToolResponse: functionResponses => this.connection?.sendToolResponse({ functionResponses }),
+          });
+          this.emit('message', message);
+        },
+      });
+      this.connection = connection;
+      await connection.connect();
+
+      const gate = new InputGate(
+        options.inputMode,
+        {
+          sendAudio: (frame) => connection.sendRealtimeInput({ media: createPcmBlob(frame, SAMPLE_RATE_IN) }),
+          activityStart: () => connection.sendRealtimeInput({ activityStart: {} }),
+          activityEnd: () => connection.sendRealtimeInput({ activityEnd: {} }),
+        },
+        { vad: options.vad, sampleRate: SAMPLE_RATE_IN, preRollFrames: Math.ceil(VAD_PRE_ROLL_MS / CAPTURE_FRAME_MS) },
+      );
+      gate.onActivityChange = (active) => this.emit('voiceActivity', active);
+      if (attempt === this.attempt) this.gate = gate;
+    } catch (err: any) {
+      if (attempt !== this.attempt) return;
+      console.error('Failed to connect:', err);
+      this.fail(err?.message || 'Failed to start the conversation.');
+    }
+  }
+
+  disconnect() {
+    this.teardown('disconnected');
+  }
+
+  setMuted(muted: boolean) {
+    if (muted === this._muted) return;
+    this._muted = muted;
+    if (muted) this.gate?.release();
+    this.emit('muted', muted);
+  }
+
+  /** Holds or releases the talk button; only used in push-to-talk mode. */
+  setPushToTalk(held: boolean) {
+    if (this._muted) return;
+    this.gate?.setPushToTalk(held);
+  }
+
+  /** Types a message into the session, sharing its persona and context. */
+  sendText(text: string) {
+    if (!text.trim() || !this.connection?.isOpen) return;
+    this.connection.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+    this.setTranscript(appendTypedTurn(this._transcript, text));
+  }
+
+  /** Stops the current reply locally; the session stays open and the model finishes its turn unheard. */
+  interrupt() {
+    if (!this.playback?.isSpeaking) return;
+    this.suppressReply.current = true;
+    this.playback.flush();
+    this.setTranscript(completeTurns(this._transcript, { interrupted: true }));
+  }
+
+  clearTranscript() {
+    this.setTranscript([]);
+  }
+
+  /** Disconnects and drops every listener and tool. The client cannot be used afterwards. */
+  dispose() {
+    this.teardown('disconnected');
+    this.unregisterTools.splice(0).forEach(unregister => unregister());
+    this.listeners.clear();
+  }
+
+  private registerTools() {
+    this.unregisterTools.splice(0).forEach(unregister => unregister());
+    if (this.options.builtinTools) {
+      this.unregisterTools.push(registerBuiltinTools(this.toolRegistry, {
+        onTimerFinished: (label) => this.connection?.isOpen && this.connection.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: `The timer "${label}" has just finished. Let me know out loud.` }] }],
+          turnComplete: true,
+        }),
+      }));
+    }
+    this.options.tools.forEach(tool => this.unregisterTools.push(this.toolRegistry.register(tool)));
+  }
+
+  private fail(message: string) {
+    this.teardown('error');
+    this.emit('error', message);
+  }
+
+  private teardown(nextStatus: ConnectionStatus) {
+    this.attempt++;
+    this.stopLevels?.();
+    this.stopLevels = null;
+    this.toolRegistry.cancelAll();
+    this.connection?.disconnect();
+    this.connection = null;
+    this.capture?.stop();
+    this.capture = null;
+    this.gate = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.playback?.dispose();
+    this.playback = null;
+    this.inputCtx?.close();
+    this.outputCtx?.close();
+    this.inputCtx = null;
+    this.outputCtx = null;
+    this.setMuted(false);
+    if (this._speaking) {
+      this._speaking = false;
+      this.emit('speaking', false);
+    }
+    if (this._transcript.some(entry => !entry.complete)) this.setTranscript(completeTurns(this._transcript));
+    this.setStatus(nextStatus);
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (status === this._status) return;
+    this._status = status;
+    this.emit('status', status);
+  }
+
+  private setTranscript(entries: TranscriptionEntry[]) {
+    this._transcript = entries;
+    this.emit('transcript', entries);
+  }
+
+  private emit<K extends keyof VoxClientEvents>(event: K, value: VoxClientEvents[K]) {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(value);
+      } catch (err) {
+        console.error(`A Vox "${event}" listener failed:`, err);
+      }
+    });
+  }
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { matchesWakePhrase } from './wakePhrase';
+
+describe('matchesWakePhrase', () => {
+  it('ignores case and punctuation', () => {
+    expect(matchesWakePhrase('Hey, Vox!', 'hey vox')).toBe(true);
+    expect(matchesWakePhrase('okay so hey vox what is the time', 'Hey Vox')).toBe(true);
+  });
+
+  it('only matches whole words', () => {
+    expect(matchesWakePhrase('hey voxel', 'hey vox')).toBe(false);
+    expect(matchesWakePhrase('they vox', 'hey vox')).toBe(false);
+  });
+
+  it('never matches an empty phrase', () => {
+    expect(matchesWakePhrase('anything at all', '  ')).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+export interface WakePhraseSettings {
+  enabled: boolean;
+  phrase: string;
+}
+
+export const DEFAULT_WAKE_PHRASE_SETTINGS: WakePhraseSettings = { enabled: false, phrase: 'Hey Vox' };
+
+const WAKE_PHRASE_STORAGE_KEY = 'vox.wakePhrase';
+
+export function loadWakePhraseSettings(): WakePhraseSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WAKE_PHRASE_STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored.enabled === 'boolean' && typeof stored.phrase === 'string') {
+      return { enabled: stored.enabled, phrase: stored.phrase };
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_WAKE_PHRASE_SETTINGS;
+}
+
+export function saveWakePhraseSettings(settings: WakePhraseSettings) {
+  localStorage.setItem(WAKE_PHRASE_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Lower case words only, so "Hey, Vox!" and "hey vox" compare equal
+export function normalizeSpeech(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export function matchesWakePhrase(transcript: string, phrase: string): boolean {
+  const wanted = normalizeSpeech(phrase);
+  if (!wanted) return false;
+  return ` ${normalizeSpeech(transcript)} `.includes(` ${wanted} `);
+}
+
+// The Web Speech API is not in the TypeScript DOM types; only what Vox uses is declared
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  processLocally?: boolean;
+  onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+type Availability = 'available' | 'downloadable' | 'downloading' | 'unavailable';
+
+interface SpeechRecognitionClass {
+  new(): SpeechRecognitionLike;
+  available?: (options: { langs: string[]; processLocally: boolean }) => Promise<Availability>;
+  install?: (options: { langs: string[]; processLocally: boolean }) => Promise<boolean>;
+}
+
+function getRecognitionClass(): SpeechRecognitionClass | undefined {
+  const scope = window as any;
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+}
+
+export function supportsWakePhrase(): boolean {
+  return typeof getRecognitionClass()?.available === 'function';
+}
+
+// Recognition restarts on its own after these; anything else stops the detector
+const TRANSIENT_ERRORS = ['no-speech', 'aborted', 'network'];
+
+/**
+ * Listens for the wake phrase with on-device speech recognition, so nothing
+ * the user says leaves the browser until the phrase is heard.
+ */
+export class WakePhraseDetector {
+  onDetected: (() => void) | null = null;
+  onError: ((message: string) => void) | null = null;
+
+  private recognition: SpeechRecognitionLike | null = null;
+  private active = false;
+
+  constructor(private readonly phrase: string, private readonly lang: string) {}
+
+  async start() {
+    const Recognition = getRecognitionClass();
+    if (!Recognition?.available || !Recognition.install) {
+      throw new Error('This browser cannot recognise speech on the device, so the wake phrase is unavailable.');
+    }
+    this.active = true;
+    const options = { langs: [this.lang], processLocally: true };
+    const availability = await Recognition.available(options);
+    if (availability === 'unavailable') {
+      throw new Error(`On-device speech recognition is not available for ${this.lang}.`);
+    }
+    if (availability !== 'available' && !(await Recognition.install(options))) {
+      throw new Error('Could not download the on-device speech model for the wake phrase.');
+    }
+    // Stopped while the speech model was checked or downloaded
+    if (!this.active) return;
+
+    const recognition = new Recognition();
+    recognition.lang = this.lang;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.processLocally = true;
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        if (matchesWakePhrase(event.results[i][0].transcript, this.phrase)) {
+          this.stop();
+          this.onDetected?.();
+          return;
+        }
+      }
+    };
+    recognition.onerror = (event) => {
+      if (TRANSIENT_ERRORS.includes(event.error)) return;
+      this.stop();
+      this.onError?.(event.error === 'not-allowed'
+        ? 'Microphone access is needed to listen for the wake phrase.'
+        : `Wake phrase detection stopped (${event.error}).`);
+    };
+    // Continuous recognition still ends after a while of silence
+    recognition.onend = () => {
+      if (this.active) recognition.start();
+    };
+
+    this.recognition = recognition;
+    recognition.start();
+  }
+
+  stop() {
+    this.active = false;
+    this.recognition?.abort();
+    this.recognition = null;
+  }
+}
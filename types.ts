@@ -1,9 +1,144 @@
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
 
 export interface TranscriptionEntry {
+  id: string;
   role: 'user' | 'model';
   text: string;
+  // Epoch milliseconds of the first and latest fragment of the turn.
+  startedAt: number;
+  updatedAt: number;
+  // The turn has ended and no further partial transcripts will be merged into it.
+  complete: boolean;
+  // The model turn was cut off by the user barging in.
+  interrupted?: boolean;
+  // The user turn was typed in the composer rather than spoken.
+  typed?: boolean;
+}
+
+export type ResponseLength = 'brief' | 'balanced' | 'detailed';
+
+export interface Persona {
+  id: string;
+  name: string;
+  instructions: string;
+  // Name of a Gemini prebuilt voice, e.g. 'Kore'.
+  voice: string;
+  // Free-form hint such as "Malay" or "English (US)"; empty to mirror the user.
+  languageHint: string;
+  responseLength: ResponseLength;
+}
+
+// open: stream everything; push-to-talk: only while held; vad: only detected speech
+export type InputMode = 'open' | 'push-to-talk' | 'vad';
+
+export interface VadSettings {
+  // RMS level (0 to 1) a frame must reach to count as voiced.
+  energyThreshold: number;
+  // Frames crossing zero more often than this (per sample) are treated as hiss, not speech.
+  maxZeroCrossingRate: number;
+  // How long voiced frames must persist before speech starts.
+  attackMs: number;
+  // How long speech is held open after the last voiced frame.
+  hangoverMs: number;
+}
+
+export interface InputSettings {
+  mode: InputMode;
+  vad: VadSettings;
+}
+
+// auto: mirror the user; locked: always one language; bilingual: either of a pair
+export type LanguageMode = 'auto' | 'locked' | 'bilingual';
+
+export interface LanguageSettings {
+  mode: LanguageMode;
+  // Language id from services/languages, e.g. 'ms'. The locked language, the first
+  // of a bilingual pair, or the interpreter's target language.
+  primary: string;
+  // Second language of a bilingual pair.
+  secondary: string;
+  // Translate each user turn instead of answering it.
+  interpreter: boolean;
+  // Use the voice suggested for a single target language instead of the persona's.
+  matchVoice: boolean;
+}
+
+// 'default' leaves the choice to the server.
+export type SpeechSensitivity = 'default' | 'high' | 'low';
+
+// Server-side voice activity detection, used when the mic is open.
+export interface ActivityDetectionSettings {
+  startSensitivity: SpeechSensitivity;
+  endSensitivity: SpeechSensitivity;
+  // Null leaves the value to the server.
+  prefixPaddingMs: number | null;
+  silenceDurationMs: number | null;
+}
+
+// Null leaves each parameter at the model's default.
+export interface GenerationSettings {
+  temperature: number | null;
+  topP: number | null;
+  topK: number | null;
+  maxOutputTokens: number | null;
+}
+
+export interface ContextCompressionSettings {
+  enabled: boolean;
+  // Context size that triggers compression, and the size it is cut back to. Null for the server default.
+  triggerTokens: number | null;
+  targetTokens: number | null;
+}
+
+export interface SessionSettings {
+  // Empty picks the default model for the response modality.
+  model: string;
+  // Empty uses the persona's voice (or the language's, when matched).
+  voice: string;
+  activityDetection: ActivityDetectionSettings;
+  generation: GenerationSettings;
+  // Native audio models only.
+  affectiveDialog: boolean;
+  proactiveAudio: boolean;
+  contextCompression: ContextCompressionSettings;
+}
+
+export interface MemoryTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface Memory {
+  id: string;
+  // Epoch milliseconds when the session ended.
+  createdAt: number;
+  personaId: string;
+  summary: string;
+  turns: MemoryTurn[];
+  // Pinned memories are always given to the model; others only while recent.
+  pinned: boolean;
+}
+
+export interface SummaryRequest {
+  turns: MemoryTurn[];
+}
+
+export interface SummaryResponse {
+  summary: string;
+}
+
+// Body of a request to the token server for one Live session.
+export interface LiveTokenRequest {
+  model: string;
+  responseModalities: Modality[];
+}
+
+export interface LiveTokenResponse {
+  // Ephemeral token used in place of an API key; valid for one new session.
+  token: string;
+  // ISO time after which the session is closed.
+  expireTime: string;
 }
 
 export enum Modality {
@@ -2,18 +2,44 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// `vite build --mode sdk|embed` builds the embeddable library instead of the app
+const LIBRARY_BUILDS: Record<string, { entry: string; fileName: string; external: string[] }> = {
+  // For bundled apps: the host supplies React and the Gemini SDK
+  sdk: { entry: 'sdk.ts', fileName: 'vox', external: ['react', 'react/jsx-runtime', 'react-dom', 'react-dom/client', '@google/genai'] },
+  // For any page: one script that registers <vox-assistant>
+  embed: { entry: 'embed.ts', fileName: 'vox-assistant', external: [] },
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const library = LIBRARY_BUILDS[mode];
+    if (library) {
+      return {
+        plugins: [react()],
+        // Library mode leaves process.env alone, but the bundled React reads NODE_ENV
+        define: library.external.includes('react') ? {} : { 'process.env.NODE_ENV': JSON.stringify('production') },
+        build: {
+          outDir: 'dist/lib',
+          emptyOutDir: false,
+          lib: { entry: path.resolve(__dirname, library.entry), formats: ['es'], fileName: () => `${library.fileName}.js` },
+          rollupOptions: { external: library.external },
+        },
+      };
+    }
+    // The API key stays with the token server; the browser only ever sees ephemeral tokens
+    const proxy = {
+      '/api': `http://localhost:${env.VOX_SERVER_PORT || 3001}`,
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        proxy,
       },
+      plugins: [react()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),